@@ -4,6 +4,7 @@ var config = {
   env: process.env.NODE_ENV || 'development',
   host: process.env.HOST || 'localhost',
   port: process.env.PORT || 8889,
+  siteUrl: process.env.SITE_URL || 'https://korolev.dk',
   karmaPort: 9876
 }
 
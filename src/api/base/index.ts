@@ -20,6 +20,7 @@ type IMapCache<T> = Map<string, T>
 interface ICachedQueries<IType> {
   find: IMapCache<IType[]>
   get: IMapCache<IType>
+  custom: IMapCache<any>
 }
 
 interface ICreateServiceOptions {
@@ -37,11 +38,13 @@ const viewSort = view(sortL)
 const setSort = set(sortL, {
   _created: -1
 })
-const methods = ['find', 'get']
+const methods = ['find', 'get', 'custom']
 
 export class BaseService<IType> extends Service {
+  // Mixed in by feathers, see feathers/lib/mixins/event
+  public emit: (event: string, ...args: any[]) => boolean
   private logInfo: IDebugger
-  private logError: IDebugger
+  protected logError: IDebugger
   private serviceName: string
   private incremental: boolean
   private cacheable: boolean
@@ -66,17 +69,39 @@ export class BaseService<IType> extends Service {
 
     this.cachedQueries = {
       find: new Map(),
-      get: new Map()
+      get: new Map(),
+      custom: new Map()
     }
 
     this.logInfo = debug(`k:db:${serviceName}:info`)
     this.logError = debug(`k:db:${serviceName}:error`)
   }
 
-  private clearCache (): void {
+  protected clearCache (): void {
     methods.forEach((method: string): void => {
       this.cachedQueries[method].clear()
     })
+
+    // Lets derived data (sitemap, etc.) know that it should be rebuilt
+    this.emit('cacheCleared')
+  }
+
+  /**
+   * Caches results of queries a service adds on top of the standard methods, they are dropped on writes as well
+   */
+  protected async cached<IResult> (key: string, query: () => Promise<IResult>): Promise<IResult> {
+    if (this.cacheable && this.cachedQueries.custom.has(key)) {
+      this.logInfo('Found cached query', key)
+      return this.cachedQueries.custom.get(key)
+    }
+
+    const result = await query()
+
+    if (this.cacheable) {
+      this.cachedQueries.custom.set(key, result)
+    }
+
+    return result
   }
 
   public async find (params?: any): Promise<IType[]> {
@@ -170,7 +195,7 @@ export class BaseService<IType> extends Service {
     return result
   }
 
-  public async remove (_id: number, params: any): Promise<IType> {
+  public async remove (_id: string, params: any): Promise<IType> {
     this.logInfo('DELETE', _id, params)
 
     const result = await super.remove(_id, params)
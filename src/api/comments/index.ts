@@ -0,0 +1,109 @@
+import { BadRequest, NotFound } from 'feathers-errors'
+import * as NeDB from 'nedb'
+
+import { BaseService } from 'api/base'
+import { isAdmin, populateOptionalUser, restrictToAdmin } from 'api/hooks'
+import { postsServiceName } from 'api/posts'
+import { dbPath, filterQuery, validateComment } from 'utils/server'
+import { omit } from 'utils/server/ramda'
+
+import { commentsServiceName } from './serviceName'
+
+// Models
+import { IHooks } from 'models/api'
+import { IComment } from 'models/comments'
+
+const db = new NeDB({
+  filename: dbPath(commentsServiceName),
+  autoload: true
+})
+
+// Anyone may comment, but only admins moderate
+const { update, patch, remove } = restrictToAdmin()
+
+const isProvidedByVisitor = (hook: any): boolean => !!hook.params.provider && !isAdmin(hook)
+
+// Comments of visitors wait in the moderation queue until an admin approves them
+const holdForModeration = (hook: any): void => {
+  if (isProvidedByVisitor(hook)) {
+    hook.data.status = 'pending'
+  } else if (!hook.data.status) {
+    hook.data.status = 'approved'
+  }
+}
+
+// A reply belongs to the same post as the comment it answers, posts that are not published yet can not be commented
+const checkThread = async (hook: any): Promise<void> => {
+  const { postId, parentId } = hook.data
+
+  await hook.app.service(`/api/${postsServiceName}`).get(postId)
+
+  if (!parentId) {
+    return
+  }
+
+  const parent: IComment = await hook.service.get(parentId)
+
+  if (parent.postId !== postId) {
+    throw new BadRequest('Reply belongs to another post')
+  }
+}
+
+// Emails are hidden from visitors, so they can not find comments by them either
+const isPublicQueryField = (field: string): boolean => field !== 'email'
+
+const filterUnapproved = (hook: any): void => {
+  if (isAdmin(hook)) {
+    return
+  }
+
+  hook.params.query = {
+    ...filterQuery(hook.params.query || {}, isPublicQueryField),
+    status: 'approved'
+  }
+}
+
+const rejectUnapproved = (hook: any): void => {
+  if (hook.result.status !== 'approved' && !isAdmin(hook)) {
+    throw new NotFound(`No record found for id '${hook.id}'`)
+  }
+}
+
+const stripEmail = omit(['email'])
+
+// Emails are only shown to admins
+const hideEmails = (hook: any): void => {
+  if (!isProvidedByVisitor(hook)) {
+    return
+  }
+
+  hook.result = Array.isArray(hook.result) ? hook.result.map(stripEmail) : stripEmail(hook.result)
+}
+
+class CommentsService extends BaseService<IComment> {
+  public before: IHooks = {
+    find: [populateOptionalUser, filterUnapproved],
+    get: [populateOptionalUser],
+    create: [populateOptionalUser, holdForModeration, checkThread],
+    update,
+    patch,
+    remove
+  }
+
+  public after: IHooks = {
+    find: [hideEmails],
+    get: [rejectUnapproved, hideEmails],
+    create: [hideEmails]
+  }
+}
+
+const commentsService = (): any => new CommentsService({
+  serviceName: commentsServiceName,
+  validator: validateComment,
+  Model: db
+})
+
+export {
+  commentsService,
+  commentsServiceName
+}
@@ -0,0 +1 @@
+export const commentsServiceName = 'comments'
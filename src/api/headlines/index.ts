@@ -1,8 +1,8 @@
 import { BaseService } from 'api/base'
 import * as NeDB from 'nedb'
 
-import { restrictToAdmin } from 'api/hooks'
-import { combineHooks } from 'utils'
+import { restrictByPermission } from 'api/hooks'
+import { combineHooks, permissions } from 'utils'
 import { dbPath, validateHeadline } from 'utils/server'
 
 // Models
@@ -18,7 +18,7 @@ const db = new NeDB({
 
 class HeadlinesService extends BaseService<IHeadline> {
   public before: IHooks = combineHooks(
-    restrictToAdmin()
+    restrictByPermission(permissions.headlines)
   )
 }
 
@@ -3,16 +3,24 @@ import * as authentication from 'feathers-authentication'
 // Models
 import { IHooks } from 'models/api'
 
-export const associateUser = (): IHooks => {
-  const commonHooks = [
+// Whoever edits a document later, it stays with the one who created it
+const keepAuthor = async (hook: any): Promise<void> => {
+  if (hook.method === 'patch') {
+    delete hook.data.author
+    return
+  }
+
+  const { author } = await hook.service.get(hook.id, hook.params)
+
+  hook.data = { ...hook.data, author }
+}
+
+export const associateUser = (): IHooks => ({
+  create: [
     authentication.hooks.associateCurrentUser({
       as: 'author'
     })
-  ]
-
-  return {
-    create: commonHooks,
-    update: commonHooks,
-    patch: commonHooks
-  }
-}
+  ],
+  update: [keepAuthor],
+  patch: [keepAuthor]
+})
@@ -0,0 +1,30 @@
+import { path } from 'utils/server/ramda'
+
+// Models
+import { IHooks } from 'models/api'
+import { IPost } from 'models/posts'
+
+const toArray = <T> (source: T | T[]): T[] => Array.isArray(source) ? source : [source]
+
+const tagsOf = (post?: IPost): string[] => post && post.tags || []
+
+const recount = async (hook: any): Promise<void> => {
+  const previous: string[] = tagsOf(path(['params', 'snapshot'], hook))
+  const current: string[] = toArray(hook.result).reduce(
+    (result: string[], post: IPost): string[] => [...result, ...tagsOf(post)],
+    []
+  )
+
+  await hook.service.recountTags([...previous, ...current])
+}
+
+/**
+ * Keeps `_count` of the tags a post had and has after the write up to date.
+ * Tags the post had before an edit are taken from the snapshotRevision hook.
+ */
+export const countTags = (): IHooks => ({
+  create: [recount],
+  update: [recount],
+  patch: [recount],
+  remove: [recount]
+})
@@ -0,0 +1,45 @@
+import { NotFound } from 'feathers-errors'
+
+import { canEdit, hasRole } from 'utils'
+import { populateOptionalUser } from './populateOptionalUser'
+
+// Models
+import { IHooks } from 'models/api'
+import { IPermission } from 'models/user'
+
+const hiddenStatuses = ['draft', 'scheduled']
+
+/**
+ * Drafts and scheduled documents are visible to those who may edit them, internal calls without a user are treated
+ * as anonymous. Users who may edit their own documents only see the rest of them once they are published.
+ */
+export const hideDrafts = (permission: IPermission): IHooks => {
+  const { editOwn, ownerField } = permission
+
+  const filterDrafts = (hook: any): void => {
+    const { user } = hook.params
+
+    if (canEdit(user, permission)) {
+      return
+    }
+
+    hook.params.query = user && editOwn !== undefined && hasRole(user.level, editOwn)
+      ? { ...hook.params.query, $or: [{ status: 'publish' }, { [ownerField]: user._id }] }
+      : { ...hook.params.query, status: 'publish' }
+  }
+
+  return {
+    find: [populateOptionalUser, filterDrafts],
+    get: [populateOptionalUser]
+  }
+}
+
+export const rejectDrafts = (permission: IPermission): IHooks => ({
+  get: [
+    (hook: any): void => {
+      if (hiddenStatuses.indexOf(hook.result.status) !== -1 && !canEdit(hook.params.user, permission, hook.result)) {
+        throw new NotFound(`No record found for id '${hook.id}'`)
+      }
+    }
+  ]
+})
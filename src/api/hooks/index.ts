@@ -1,3 +1,8 @@
 export { associateUser } from './associateUser'
-export { restrictToAdmin } from './restrictToAdmin'
+export { requireAdminToWrite, restrictByPermission, restrictReadToAdmin, restrictToAdmin } from './restrictToAdmin'
 export { createSlug } from './createSlug'
+export { countTags } from './countTags'
+export { renderContent } from './renderContent'
+export { hideDrafts, rejectDrafts } from './hideDrafts'
+export { saveRevision, snapshotRevision } from './saveRevision'
+export { isAdmin, populateOptionalUser } from './populateOptionalUser'
@@ -0,0 +1,25 @@
+import * as authentication from 'feathers-authentication'
+
+import { usersServiceName } from 'api/users/serviceName'
+import { UserRoles } from 'utils'
+
+const verifyToken = authentication.hooks.verifyToken()
+const populateUser = authentication.hooks.populateUser({
+  userEndpoint: `/api/${usersServiceName}`
+})
+
+// Reading is open to everyone, so unlike restrictToAdmin a missing or broken token just means an anonymous visitor
+export const populateOptionalUser = async (hook: any): Promise<any> => {
+  if (!hook.params.provider || !hook.params.token || hook.params.user) {
+    return hook
+  }
+
+  try {
+    return await populateUser(await verifyToken(hook))
+  } catch (error) {
+    return hook
+  }
+}
+
+export const isAdmin = ({ params }: any): boolean =>
+  !!params.user && params.user.level === UserRoles.admin
@@ -0,0 +1,94 @@
+import { Forbidden } from 'feathers-errors'
+
+import { uploadsServiceName } from 'api/uploads/serviceName'
+import { renderMarkdown, splitPages } from 'utils/server'
+
+import { isAdmin } from './populateOptionalUser'
+
+// Models
+import { IHooks } from 'models/api'
+
+const renderHtml = (content: string, contentFormat: string): string =>
+  contentFormat === 'markdown' ? renderMarkdown(content) : content
+
+// Pages are rendered one by one, markdown would escape the markers otherwise.
+// Uploaded images get srcset whether they came from markdown or html.
+const render = async (hook: any, content: string, contentFormat: string): Promise<void> => {
+  const { data } = hook
+  const uploads = hook.app.service(`/api/${uploadsServiceName}`)
+  const pages = await Promise.all(splitPages(content).map(
+    (page: string): Promise<string> => uploads.responsive(renderHtml(page, contentFormat))
+  ))
+
+  data._html = pages.join('\n')
+  data._pages = pages.length > 1 ? pages : []
+}
+
+// Excerpts are written in the format of the content and go to list pages as they are rendered
+const renderExcerpt = (hook: any, excerpt: string, contentFormat: string): void => {
+  hook.data._excerpt = renderHtml(excerpt, contentFormat)
+}
+
+// Rendered fields belong to the service, clients send the source only
+const dropRendered = (hook: any): void => {
+  if (hook.params.provider) {
+    delete hook.data._excerpt
+    delete hook.data._html
+    delete hook.data._pages
+  }
+}
+
+// Markdown renders to whitelisted markup only, html is published as it is, so only admins may write it
+const restrictHtml = (hook: any, contentFormat: string): void => {
+  if (hook.params.provider && contentFormat !== 'markdown' && !isAdmin(hook)) {
+    throw new Forbidden('Only admins may write html, use markdown')
+  }
+}
+
+const renderOnCreate = async (hook: { app: any, data: any, params: any }): Promise<void> => {
+  const { data } = hook
+
+  if (!data.contentFormat) {
+    data.contentFormat = 'markdown'
+  }
+
+  restrictHtml(hook, data.contentFormat)
+
+  if (typeof data.content === 'string') {
+    await render(hook, data.content, data.contentFormat)
+  }
+
+  if (typeof data.excerpt === 'string') {
+    renderExcerpt(hook, data.excerpt, data.contentFormat)
+  }
+}
+
+const renderOnEdit = async (hook: { app: any, id: string, data: any, params: any, service: any }): Promise<void> => {
+  const { data } = hook
+
+  if (data.content === undefined && data.contentFormat === undefined && data.excerpt === undefined) {
+    return
+  }
+
+  // Entities created before markdown support have no format and contain plain html
+  const entity = await hook.service.get(hook.id, hook.params)
+  const content = data.content === undefined ? entity.content : data.content
+  const excerpt = data.excerpt === undefined ? entity.excerpt : data.excerpt
+  const contentFormat = data.contentFormat || entity.contentFormat || 'html'
+
+  restrictHtml(hook, contentFormat)
+
+  if (typeof content === 'string' && (data.content !== undefined || data.contentFormat !== undefined)) {
+    await render(hook, content, contentFormat)
+  }
+
+  if (typeof excerpt === 'string') {
+    renderExcerpt(hook, excerpt, contentFormat)
+  }
+}
+
+export const renderContent = (): IHooks => ({
+  create: [dropRendered, renderOnCreate],
+  update: [dropRendered, renderOnEdit],
+  patch: [dropRendered, renderOnEdit]
+})
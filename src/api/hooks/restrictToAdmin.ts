@@ -1,34 +1,52 @@
 import * as authentication from 'feathers-authentication'
 
-import { usersServiceName } from 'api/users'
-import { UserRoles } from 'utils'
+import { usersServiceName } from 'api/users/serviceName'
+import { rolesFrom, UserRoles } from 'utils'
 
 // Models
 import { IHooks } from 'models/api'
+import { IPermission } from 'models/user'
 
-export const restrictToAdmin = (): IHooks => {
+const authenticate = (): any[] => [
+  authentication.hooks.verifyToken(),
+  authentication.hooks.populateUser({
+    userEndpoint: `/api/${usersServiceName}`
+  })
+]
+
+const restrictToRole = (role: UserRoles): any => authentication.hooks.restrictToRoles({
+  roles: rolesFrom(role),
+  fieldName: 'level'
+})
+
+/**
+ * Users of the `edit` role pass, the rest of those who have the `editOwn` role pass for their own documents only
+ */
+const restrictToOwner = ({ edit, editOwn, ownerField }: IPermission): any[] => [
+  restrictToRole(editOwn),
+  authentication.hooks.restrictToRoles({
+    roles: rolesFrom(edit),
+    fieldName: 'level',
+    ownerField,
+    owner: true
+  })
+]
+
+/**
+ * Writes by the permission matrix, see utils/permissions
+ */
+export const restrictByPermission = (permission: IPermission): IHooks => {
   const commonHooks = [
-    authentication.hooks.verifyToken(),
-    authentication.hooks.populateUser({
-      userEndpoint: `/api/${usersServiceName}`
-    }),
+    ...authenticate(),
     authentication.hooks.hashPassword()
   ]
   const createHooks = [
     ...commonHooks,
-    authentication.hooks.restrictToRoles({
-      roles: [UserRoles.admin],
-      fieldName: 'level'
-    })
+    restrictToRole(permission.create)
   ]
   const editHooks = [
     ...commonHooks,
-    authentication.hooks.restrictToRoles({
-      roles: [UserRoles.admin],
-      fieldName: 'level',
-      ownerField: '_id',
-      owner: true
-    })
+    ...(permission.editOwn === undefined ? [restrictToRole(permission.edit)] : restrictToOwner(permission))
   ]
 
   return {
@@ -38,3 +56,38 @@ export const restrictToAdmin = (): IHooks => {
     remove: editHooks
   }
 }
+
+export const restrictToAdmin = (): IHooks => restrictByPermission({
+  create: UserRoles.admin,
+  edit: UserRoles.admin
+})
+
+const adminHooks = (): any[] => [
+  ...authenticate(),
+  restrictToRole(UserRoles.admin)
+]
+
+export const restrictReadToAdmin = (): IHooks => {
+  const readHooks = adminHooks()
+
+  return {
+    find: readHooks,
+    get: readHooks
+  }
+}
+
+/**
+ * Express middleware running the admin checks on writes before the rest of the middleware reads the request body.
+ * The token is already parsed into `req.feathers` by the authentication middleware.
+ */
+export const requireAdminToWrite = (req: any, _: any, next: (error?: Error) => void): void => {
+  if (req.method === 'GET') {
+    return next()
+  }
+
+  const hook = { type: 'before', app: req.app, params: req.feathers }
+
+  adminHooks()
+    .reduce((checks: Promise<any>, check: any): Promise<any> => checks.then((): any => check(hook)), Promise.resolve())
+    .then((): void => next(), next)
+}
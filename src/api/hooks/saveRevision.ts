@@ -0,0 +1,42 @@
+import { revisionsServiceName } from 'api/revisions'
+
+// Models
+import { IHooks } from 'models/api'
+
+const snapshot = async (hook: any): Promise<void> => {
+  hook.params.snapshot = await hook.service.get(hook.id, hook.params)
+}
+
+/**
+ * Keeps the document as it was before the edit, saveRevision stores it once the edit succeeds
+ */
+export const snapshotRevision = (): IHooks => ({
+  update: [snapshot],
+  patch: [snapshot],
+  remove: [snapshot]
+})
+
+export const saveRevision = (source: string): IHooks => {
+  const save = async (hook: any): Promise<void> => {
+    const { snapshot: document } = hook.params
+
+    if (!document) {
+      return
+    }
+
+    await hook.app.service(`/api/${revisionsServiceName}`).create({
+      document,
+      // A post moved to another slug keeps its history
+      documentId: hook.result._id,
+      source,
+      // The last state of a removed document, tells the site it is gone rather than never existed
+      ...(hook.method === 'remove' ? { removed: true } : {})
+    })
+  }
+
+  return {
+    update: [save],
+    patch: [save],
+    remove: [save]
+  }
+}
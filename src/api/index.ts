@@ -1,11 +1,41 @@
 import * as authentication from 'feathers-authentication'
 
+import { commentsService, commentsServiceName } from 'api/comments'
 import { headlinesService, headlinesServiceName } from 'api/headlines'
 import { optionsService, optionsServiceName } from 'api/options'
 import { pagesService, pagesServiceName } from 'api/pages'
-import { postsService, postsServiceName } from 'api/posts'
-import { tagsService, tagsServiceName } from 'api/tags'
-import { usersService, usersServiceName } from 'api/users'
+import {
+  postsAdjacentService,
+  postsAdjacentServiceName,
+  postsMonthsService,
+  postsMonthsServiceName,
+  postsService,
+  postsServiceName
+} from 'api/posts'
+import { redirectsService, redirectsServiceName } from 'api/redirects'
+import {
+  revisionDiffService,
+  revisionDiffServiceName,
+  revisionRestoreService,
+  revisionRestoreServiceName,
+  revisionsService,
+  revisionsServiceName
+} from 'api/revisions'
+import { searchService, searchServiceName } from 'api/search'
+import { tagsMergeService, tagsMergeServiceName, tagsService, tagsServiceName } from 'api/tags'
+import { uploadMiddleware, uploadsService, uploadsServiceName } from 'api/uploads'
+import {
+  usersInvitesService,
+  usersInvitesServiceName,
+  usersRegisterService,
+  usersRegisterServiceName,
+  usersResetService,
+  usersResetServiceName,
+  usersService,
+  usersServiceName
+} from 'api/users'
+import { webmentionsService, webmentionsServiceName } from 'api/webmentions'
+import { fileMailTransport } from 'utils/server'
 
 const apiEndpoint = (serviceName: string): string => `/api/${serviceName}`
 
@@ -14,10 +44,33 @@ export const setupApplication = (app: any): void => {
     userEndpoint: apiEndpoint(usersServiceName)
   }))
 
+  // A real transport can be set before, emails are written to files otherwise
+  if (!app.get('mailTransport')) {
+    app.set('mailTransport', fileMailTransport())
+  }
+
+  // Same as with revisions below, `invites`, `register` and `reset` would be taken for user ids otherwise
+  app.use(apiEndpoint(usersInvitesServiceName), usersInvitesService())
+  app.use(apiEndpoint(usersRegisterServiceName), usersRegisterService())
+  app.use(apiEndpoint(usersResetServiceName), usersResetService())
   app.use(apiEndpoint(usersServiceName), usersService())
   app.use(apiEndpoint(pagesServiceName), pagesService())
+  // Same as with revisions below, `adjacent` and `months` would be taken for post ids otherwise
+  app.use(apiEndpoint(postsAdjacentServiceName), postsAdjacentService())
+  app.use(apiEndpoint(postsMonthsServiceName), postsMonthsService())
   app.use(apiEndpoint(postsServiceName), postsService())
+  app.use(apiEndpoint(commentsServiceName), commentsService())
   app.use(apiEndpoint(headlinesServiceName), headlinesService())
+  // Same as with revisions below, `merge` would be taken for a tag id otherwise
+  app.use(apiEndpoint(tagsMergeServiceName), tagsMergeService())
   app.use(apiEndpoint(tagsServiceName), tagsService())
   app.use(apiEndpoint(optionsServiceName), optionsService())
+  app.use(apiEndpoint(searchServiceName), searchService())
+  app.use(apiEndpoint(webmentionsServiceName), webmentionsService())
+  app.use(apiEndpoint(redirectsServiceName), redirectsService())
+  app.use(apiEndpoint(uploadsServiceName), ...uploadMiddleware, uploadsService())
+  // Nested endpoints go first, otherwise `diff` and `restore` are taken for revision ids
+  app.use(apiEndpoint(revisionDiffServiceName), revisionDiffService())
+  app.use(apiEndpoint(revisionRestoreServiceName), revisionRestoreService())
+  app.use(apiEndpoint(revisionsServiceName), revisionsService())
 }
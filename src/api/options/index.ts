@@ -1,7 +1,7 @@
 import { BaseService } from 'api/base'
 
-import { restrictToAdmin } from 'api/hooks'
-import { combineHooks } from 'utils'
+import { restrictByPermission } from 'api/hooks'
+import { combineHooks, permissions } from 'utils'
 import { validateOption } from 'utils/server'
 
 import { optionsDb } from './db'
@@ -13,7 +13,7 @@ import { IOption } from 'models/options'
 
 class OptionsService extends BaseService<IOption> {
   public before: IHooks = combineHooks(
-    restrictToAdmin()
+    restrictByPermission(permissions.options)
   )
 
   public find (params: any): Promise<IOption[]> {
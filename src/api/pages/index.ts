@@ -1,8 +1,17 @@
 import * as NeDB from 'nedb'
 
 import { BaseService } from 'api/base'
-import { associateUser, createSlug, restrictToAdmin } from 'api/hooks'
-import { combineHooks } from 'utils'
+import {
+  associateUser,
+  createSlug,
+  hideDrafts,
+  rejectDrafts,
+  renderContent,
+  restrictByPermission,
+  saveRevision,
+  snapshotRevision
+} from 'api/hooks'
+import { combineHooks, permissions } from 'utils'
 import { dbPath, validatePage } from 'utils/server'
 
 import { IHooks } from 'models/api'
@@ -19,8 +28,16 @@ class PagesService extends BaseService<IPage> {
     {
       create: [createSlug]
     },
-    restrictToAdmin(),
-    associateUser()
+    restrictByPermission(permissions.pages),
+    associateUser(),
+    renderContent(),
+    hideDrafts(permissions.pages),
+    snapshotRevision()
+  )
+
+  public after: IHooks = combineHooks(
+    rejectDrafts(permissions.pages),
+    saveRevision(pagesServiceName)
   )
 
   public create (data: IPage, params: any): Promise<IPage> {
@@ -0,0 +1,27 @@
+import { postsServiceName } from './serviceName'
+
+// Models
+import { IAdjacentPosts } from 'models/posts'
+
+class PostsAdjacentService {
+  private app: any
+
+  /**
+   * Published posts right before and after the given one, `tag` in the query keeps both within a tag
+   */
+  public get (_id: string, params: any = {}): Promise<IAdjacentPosts> {
+    const { tag }: { tag?: string } = params.query || {}
+
+    return this.app.service(`/api/${postsServiceName}`).adjacent(_id, tag)
+  }
+
+  public setup (app: any): void {
+    this.app = app
+  }
+}
+
+const postsAdjacentService = (): any => new PostsAdjacentService()
+
+export {
+  postsAdjacentService
+}
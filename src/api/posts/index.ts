@@ -1,24 +1,187 @@
+import { BadRequest, Conflict, NotFound } from 'feathers-errors'
 import * as NeDB from 'nedb'
+import { slugify } from 'transliteration'
 
 import { BaseService } from 'api/base'
-import { associateUser, createSlug, restrictToAdmin } from 'api/hooks'
-import { combineHooks } from 'utils'
-import { calcPage, dbPath, validatePost } from 'utils/server'
+import {
+  associateUser,
+  countTags,
+  createSlug,
+  hideDrafts,
+  rejectDrafts,
+  renderContent,
+  restrictByPermission,
+  saveRevision,
+  snapshotRevision
+} from 'api/hooks'
+import { commentsServiceName } from 'api/comments/serviceName'
+import { redirectsServiceName } from 'api/redirects/serviceName'
+import { revisionsServiceName } from 'api/revisions/serviceName'
+import { tagsServiceName } from 'api/tags/serviceName'
+import { webmentionsServiceName } from 'api/webmentions/serviceName'
+import { absoluteUrl, combineHooks, permissions, postUrlTemplate } from 'utils'
+import { calcPage, countByMonth, dbPath, periodRange, rankRelated, validatePost } from 'utils/server'
+import { path, prop } from 'utils/server/ramda'
+
+import { postsAdjacentService } from './adjacent'
+import { postsMonthsService } from './months'
+import { postsAdjacentServiceName, postsMonthsServiceName, postsServiceName } from './serviceName'
 
 import { IHooks } from 'models/api'
-import { IPost } from 'models/posts'
+import { IAdjacentPosts, IArchiveMonth, IPost } from 'models/posts'
+import { ITag } from 'models/tags'
 
-const postsServiceName = 'posts'
+const postsPerPage = 10
+const relatedPostsLimit = 3
 const db = new NeDB({
   filename: dbPath(postsServiceName),
   autoload: true
 })
 
+const isFuture = (date?: string): boolean =>
+  !!date && new Date(date).getTime() > Date.now()
+
+const findScheduled = (): Promise<IPost[]> => new Promise((resolve: any, reject: any): void => {
+  db.find({ status: 'scheduled' }, (error: Error, docs: IPost[]): void => error ? reject(error) : resolve(docs))
+})
+
+const publishPost = ({ _id, publishAt }: IPost): Promise<IPost> => new Promise((resolve: any, reject: any): void => {
+  db.update(
+    { _id },
+    { $set: { status: 'publish', _created: publishAt ? new Date(publishAt) : new Date() } },
+    { returnUpdatedDocs: true },
+    (error: Error, _count: number, doc: IPost): void => error ? reject(error) : resolve(doc)
+  )
+})
+
+const countTagged = (tagId: string): Promise<number> => new Promise((resolve: any, reject: any): void => {
+  db.count(
+    { tags: tagId, status: 'publish' },
+    (error: Error, count: number): void => error ? reject(error) : resolve(count)
+  )
+})
+
+const findPublished = (query: object): Promise<IPost[]> => new Promise((resolve: any, reject: any): void => {
+  db.find({ ...query, status: 'publish' }, (error: Error, docs: IPost[]): void => error ? reject(error) : resolve(docs))
+})
+
+// The closest published post on one side of the date, optionally within a tag
+const findClosest = (_created: string, side: '$lt' | '$gt', tagId?: string): Promise<IPost> =>
+  new Promise((resolve: any, reject: any): void => {
+    const query = tagId
+      ? { status: 'publish', tags: tagId, _created: { [side]: _created } }
+      : { status: 'publish', _created: { [side]: _created } }
+
+    db.find(query)
+      .sort({ _created: side === '$lt' ? -1 : 1 })
+      .limit(1)
+      .exec((error: Error, docs: IPost[]): void => error ? reject(error) : resolve(docs[0]))
+  })
+
+const findTagged = (tagId: string): Promise<IPost[]> => new Promise((resolve: any, reject: any): void => {
+  db.find({ tags: tagId }, (error: Error, docs: IPost[]): void => error ? reject(error) : resolve(docs))
+})
+
+const setTags = ({ _id }: IPost, tags: string[]): Promise<IPost> => new Promise((resolve: any, reject: any): void => {
+  db.update(
+    { _id },
+    { $set: { tags } },
+    { returnUpdatedDocs: true },
+    (error: Error, _count: number, doc: IPost): void => error ? reject(error) : resolve(doc)
+  )
+})
+
+const hasPost = (_id: string): Promise<boolean> => new Promise((resolve: any, reject: any): void => {
+  db.count({ _id }, (error: Error, count: number): void => error ? reject(error) : resolve(count > 0))
+})
+
+const insertPost = (post: IPost): Promise<IPost> => new Promise((resolve: any, reject: any): void => {
+  db.insert(post, (error: Error, doc: IPost): void => error ? reject(error) : resolve(doc))
+})
+
+const removePost = (_id: string): Promise<number> => new Promise((resolve: any, reject: any): void => {
+  db.remove({ _id }, {}, (error: Error, count: number): void => error ? reject(error) : resolve(count))
+})
+
+// Points whatever refers to a post by its id to the new id
+const repoint = async (service: any, field: string, from: string, to: string, params: any): Promise<void> => {
+  const items: Array<{ _id: string }> = await service.find({ ...params, query: { [field]: from }, paginate: false })
+
+  await Promise.all(items.map(({ _id }: { _id: string }): Promise<any> => service.patch(_id, { [field]: to }, params)))
+}
+
+const replaceInList = (list: string[], value: string, replacement?: string): string[] => {
+  const result = list.filter((item: string): boolean => item !== value)
+
+  return replacement && result.indexOf(replacement) === -1 ? [...result, replacement] : result
+}
+
+interface IPeriodQuery {
+  year?: string | number
+  month?: string | number
+  [field: string]: any
+}
+
+// `year` and optional `month` in the query narrow the list down to posts created within that period
+const filterByPeriod = (hook: any): void => {
+  const periodQuery: IPeriodQuery = hook.params.query || {}
+  const { year, month, ...query } = periodQuery
+
+  if (year === undefined) {
+    return
+  }
+
+  const range = periodRange(String(year), month === undefined ? undefined : String(month))
+
+  if (!range) {
+    throw new BadRequest('No such archive period')
+  }
+
+  hook.params.query = { ...query, _created: range }
+}
+
+/**
+ * Status follows publishAt whenever either of them changes: published posts with publishAt in the future
+ * are scheduled, scheduled ones whose time has come are published and dated by it, as publishDuePosts does.
+ * Only the stored fields a patch leaves as they are count, an update replaces them all.
+ */
+const scheduleByPublishAt = async (hook: any): Promise<void> => {
+  const { data } = hook
+
+  if (hook.method === 'create' && !data.status) {
+    data.status = 'publish'
+  }
+
+  if (data.status === undefined && data.publishAt === undefined) {
+    return
+  }
+
+  const stored: Partial<IPost> = hook.method === 'patch' ? await hook.service.get(hook.id, hook.params) : {}
+  const status = data.status || stored.status
+  const publishAt = data.publishAt === undefined ? stored.publishAt : data.publishAt
+
+  if (data.status === 'scheduled' && !isFuture(publishAt)) {
+    throw new BadRequest('Scheduled posts need publishAt in the future')
+  }
+
+  if (status === 'publish' && isFuture(publishAt)) {
+    data.status = 'scheduled'
+  } else if (status === 'scheduled' && !isFuture(publishAt)) {
+    data.status = 'publish'
+    data._created = publishAt ? new Date(publishAt) : new Date()
+  }
+}
+
+const queueWebmentions = (hook: any): void => {
+  hook.service.sendWebmentions(hook.result)
+}
+
 class PostsService extends BaseService<IPost> {
   public before: IHooks = combineHooks(
     {
       create: [createSlug],
       find: [
+        filterByPeriod,
         (hook: any): void => {
           if (!hook.params.query || !hook.params.query.pageNumber) {
             return
@@ -29,30 +192,291 @@ class PostsService extends BaseService<IPost> {
 
           hook.params.query = {
             ...hook.params.query,
-            ...calcPage(10, page)
+            ...calcPage(postsPerPage, page)
           }
         }
       ]
     },
-    restrictToAdmin(),
-    associateUser()
+    restrictByPermission(permissions.posts),
+    associateUser(),
+    renderContent(),
+    hideDrafts(permissions.posts),
+    {
+      create: [scheduleByPublishAt],
+      update: [scheduleByPublishAt],
+      patch: [scheduleByPublishAt]
+    },
+    snapshotRevision()
+  )
+
+  public after: IHooks = combineHooks(
+    rejectDrafts(permissions.posts),
+    saveRevision(postsServiceName),
+    countTags(),
+    {
+      create: [queueWebmentions],
+      update: [queueWebmentions],
+      patch: [queueWebmentions]
+    }
   )
 
+  // Earliest publishAt among scheduled posts, undefined until it is looked up after a write
+  private nextPublishAt: number
+  private publishing: Promise<void>
+  private app: any
+
   public create (data: IPost, params: any): Promise<IPost> {
     if (!data.format) {
       data.format = 'standard'
     }
 
-    if (!data.status) {
-      data.status = 'publish'
-    }
-
     if (!data.tags) {
       data.tags = []
     }
 
     return super.create(data, params)
   }
+
+  /**
+   * An `_id` other than the current one is a new slug, the post is moved there after the update
+   */
+  public async update (_id: string, { _id: slug, ...data }: IPost, params: any): Promise<IPost> {
+    const post = await super.update(_id, data, params)
+
+    return slug && slug !== _id ? this.move(post, slug, params) : post
+  }
+
+  public async patch (_id: string, { _id: slug, ...data }: IPost, params: any): Promise<IPost> {
+    const post = await super.patch(_id, data, params)
+
+    return slug && slug !== _id ? this.move(post, slug, params) : post
+  }
+
+  /**
+   * `relatedTo` in the query asks for posts similar to the given one instead of a regular list
+   */
+  public async find (params?: any): Promise<IPost[]> {
+    await this.publishScheduled()
+
+    const relatedTo = path(['query', 'relatedTo'], params)
+
+    if (relatedTo) {
+      return this.related(relatedTo)
+    }
+
+    return super.find(params)
+  }
+
+  /**
+   * Published posts sharing tags and words with the given one, most similar first
+   */
+  public related (_id: string): Promise<IPost[]> {
+    return this.cached(`related:${_id}`, async (): Promise<IPost[]> => {
+      const [post] = await findPublished({ _id })
+
+      if (!post) {
+        throw new NotFound(`No record found for id '${_id}'`)
+      }
+
+      const candidates = await findPublished({ _id: { $ne: _id } })
+      const byId = (relatedId: string): IPost =>
+        candidates.find((candidate: IPost): boolean => candidate._id === relatedId)
+
+      return rankRelated(post, candidates, relatedPostsLimit).map(byId)
+    })
+  }
+
+  public async get (_id: string, params?: any): Promise<IPost> {
+    await this.publishScheduled()
+
+    return super.get(_id, params)
+  }
+
+  /**
+   * Only published posts are counted, so counters match what visitors can actually find.
+   * Posts may refer to tags that were never created, those are skipped.
+   */
+  public async recountTags (tagIds: string[]): Promise<void> {
+    const tags = this.app.service(`/api/${tagsServiceName}`)
+    const unique = tagIds.filter((tagId: string, index: number): boolean => tagIds.indexOf(tagId) === index)
+
+    await Promise.all(unique.map(async (tagId: string): Promise<void> => {
+      const _count = await countTagged(tagId)
+
+      try {
+        await tags.patch(tagId, { _count })
+      } catch (error) {
+        if (!(error instanceof NotFound)) {
+          throw error
+        }
+      }
+    }))
+  }
+
+  /**
+   * Swaps a tag for another one in every post, or just drops it when there is no replacement.
+   * It is bookkeeping rather than an edit, so posts keep their author and get no new revisions.
+   */
+  public async replaceTag (tagId: string, replacement?: string): Promise<IPost[]> {
+    const tagged = await findTagged(tagId)
+    const posts = await Promise.all(tagged.map(
+      (post: IPost): Promise<IPost> => setTags(post, replaceInList(post.tags, tagId, replacement))
+    ))
+
+    if (posts.length) {
+      posts.forEach((post: IPost): void => {
+        this.emit('patched', post)
+      })
+      this.clearCache()
+    }
+
+    await this.recountTags(replacement ? [tagId, replacement] : [tagId])
+
+    return posts
+  }
+
+  /**
+   * Lets the sites a published post links to know about it, the webmentions service sends them in the background
+   */
+  public sendWebmentions (post: IPost): void {
+    if (post.status !== 'publish') {
+      return
+    }
+
+    const webmentions = this.app.service(`/api/${webmentionsServiceName}`)
+
+    webmentions.send(absoluteUrl(postUrlTemplate(post._id)), post._html || post.content)
+  }
+
+  /**
+   * Published posts right before and after the given one by date, either may be missing at the ends
+   */
+  public async adjacent (_id: string, tagId?: string): Promise<IAdjacentPosts> {
+    await this.publishScheduled()
+
+    return this.cached(`adjacent:${_id}:${tagId || ''}`, async (): Promise<IAdjacentPosts> => {
+      const [post] = await findPublished({ _id })
+
+      if (!post) {
+        throw new NotFound(`No record found for id '${_id}'`)
+      }
+
+      const [previous, next] = await Promise.all([
+        findClosest(post._created, '$lt', tagId),
+        findClosest(post._created, '$gt', tagId)
+      ])
+
+      return { previous, next }
+    })
+  }
+
+  /**
+   * Months with published posts and how many there are, the latest month first
+   */
+  public async months (): Promise<IArchiveMonth[]> {
+    await this.publishScheduled()
+
+    return this.cached('months', async (): Promise<IArchiveMonth[]> => {
+      const posts = await findPublished({})
+
+      return countByMonth(posts.map(({ _created }: IPost): Date => new Date(_created)))
+    })
+  }
+
+  public setup (app: any): void {
+    super.setup(app)
+    this.app = app
+
+    // Counters of tags created before they were maintained
+    app.service(`/api/${tagsServiceName}`).find({ paginate: false })
+      .then((tags: ITag[]): Promise<void> => this.recountTags(tags.map(prop('_id'))))
+      .catch(this.logError)
+  }
+
+  protected clearCache (): void {
+    this.nextPublishAt = undefined
+    super.clearCache()
+  }
+
+  /**
+   * Slugs are ids, so a new one moves the post to another document. It is bookkeeping like replaceTag:
+   * comments, webmentions and revisions follow the post, and its old address redirects to the new one.
+   */
+  private async move (post: IPost, slug: string, params: any): Promise<IPost> {
+    const _id = slugify(slug)
+    const service = (name: string): any => this.app.service(`/api/${name}`)
+    const internalParams = { user: params.user }
+
+    if (_id === post._id) {
+      return post
+    }
+
+    if (await hasPost(_id)) {
+      throw new Conflict(`Post with id '${_id}' already exists`)
+    }
+
+    const moved = await insertPost({ ...post, _id })
+
+    await removePost(post._id)
+    this.emit('removed', post)
+    this.emit('created', moved)
+    this.clearCache()
+
+    await Promise.all([
+      repoint(service(commentsServiceName), 'postId', post._id, _id, internalParams),
+      repoint(service(webmentionsServiceName), 'postId', post._id, _id, internalParams),
+      repoint(service(revisionsServiceName), 'documentId', post._id, _id, internalParams)
+    ])
+    await service(redirectsServiceName).moved(postUrlTemplate(post._id), postUrlTemplate(_id))
+
+    return moved
+  }
+
+  /**
+   * Scheduled posts go live on the first read after their publishAt.
+   * Publishing drops the cached queries, so lists never stay stale past the scheduled time.
+   */
+  private publishScheduled (): Promise<void> {
+    if (this.nextPublishAt !== undefined && Date.now() < this.nextPublishAt) {
+      return Promise.resolve()
+    }
+
+    if (!this.publishing) {
+      this.publishing = this.publishDuePosts()
+        .then((): void => {
+          this.publishing = null
+        }, (error: Error): void => {
+          this.publishing = null
+          throw error
+        })
+    }
+
+    return this.publishing
+  }
+
+  private async publishDuePosts (): Promise<void> {
+    const scheduled = await findScheduled()
+    const due = scheduled.filter((post: IPost): boolean => !isFuture(post.publishAt))
+    const pending = scheduled
+      .filter((post: IPost): boolean => isFuture(post.publishAt))
+      .map((post: IPost): number => new Date(post.publishAt).getTime())
+
+    if (due.length) {
+      const published = await Promise.all(due.map(publishPost))
+
+      published.forEach((post: IPost): void => {
+        this.emit('patched', post)
+        this.sendWebmentions(post)
+      })
+      this.clearCache()
+      await this.recountTags(published.reduce(
+        (result: string[], post: IPost): string[] => [...result, ...(post.tags || [])],
+        []
+      ))
+    }
+
+    this.nextPublishAt = Math.min(Infinity, ...pending)
+  }
 }
 
 const postsService = (): any => new PostsService({
@@ -60,12 +484,17 @@ const postsService = (): any => new PostsService({
   validator: validatePost,
   incremental: true,
   paginate: {
-    default: 10
+    default: postsPerPage
   },
   Model: db
 })
 
 export {
+  postsAdjacentService,
+  postsAdjacentServiceName,
+  postsMonthsService,
+  postsMonthsServiceName,
+  postsPerPage,
   postsService,
   postsServiceName
 }
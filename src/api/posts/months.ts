@@ -0,0 +1,25 @@
+import { postsServiceName } from './serviceName'
+
+// Models
+import { IArchiveMonth } from 'models/posts'
+
+class PostsMonthsService {
+  private app: any
+
+  /**
+   * Months of the date archives with numbers of published posts, the latest month first
+   */
+  public find (): Promise<IArchiveMonth[]> {
+    return this.app.service(`/api/${postsServiceName}`).months()
+  }
+
+  public setup (app: any): void {
+    this.app = app
+  }
+}
+
+const postsMonthsService = (): any => new PostsMonthsService()
+
+export {
+  postsMonthsService
+}
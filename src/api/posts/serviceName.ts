@@ -0,0 +1,3 @@
+export const postsServiceName = 'posts'
+export const postsAdjacentServiceName = `${postsServiceName}/adjacent`
+export const postsMonthsServiceName = `${postsServiceName}/months`
@@ -0,0 +1,162 @@
+import { Service } from 'feathers-nedb'
+import * as NeDB from 'nedb'
+
+import { BaseService } from 'api/base'
+import { restrictReadToAdmin, restrictToAdmin } from 'api/hooks'
+import { combineHooks, paginatedTemplate, postUrlTemplate, tagUrlTemplate } from 'utils'
+import { dbPath, fillRedirect, matchRedirect, validateRedirect } from 'utils/server'
+
+import { redirectsServiceName } from './serviceName'
+
+// Models
+import { IHooks } from 'models/api'
+import { IRedirect, IRedirectMatch, IRedirectParams } from 'models/redirects'
+
+const db = new NeDB({
+  filename: dbPath(redirectsServiceName),
+  autoload: true
+})
+
+const postUrl = postUrlTemplate(':postId')
+const tagUrl = tagUrlTemplate(':tagId')
+const paginate = paginatedTemplate(':pageNumber')
+
+// Addresses of the WordPress blog, stored on the first start and managed along with the rest since then
+const legacyRedirects: Array<Partial<IRedirect>> = [
+  { source: '/blog/', target: '/', status: 301 },
+  { source: '/blog/:tagId/:postId/', target: postUrl, status: 301 },
+  { source: paginate('/blog/:tagId/:postId/'), target: paginate(postUrl), status: 301 },
+  { source: '/cats/:tagId/', target: tagUrl, status: 301 },
+  { source: '/dogs/:tagId/', target: tagUrl, status: 301 },
+  { source: paginate('/cats/:tagId/'), target: paginate(tagUrl), status: 301 },
+  { source: paginate('/dogs/:tagId/'), target: paginate(tagUrl), status: 301 }
+]
+
+const countRedirects = (): Promise<number> => new Promise((resolve: any, reject: any): void => {
+  db.count({}, (error: Error, count: number): void => error ? reject(error) : resolve(count))
+})
+
+// Atomic, so concurrent hits are all counted, and the cached lookup stays as it is
+const countHit = (_id: string): Promise<number> => new Promise((resolve: any, reject: any): void => {
+  db.update(
+    { _id },
+    { $inc: { hits: 1 } },
+    {},
+    (error: Error, count: number): void => error ? reject(error) : resolve(count)
+  )
+})
+
+// Hits are counted by the service itself
+const resetHits = (hook: any): void => {
+  hook.data.hits = 0
+}
+
+const keepHits = (hook: any): void => {
+  if (hook.params.provider) {
+    delete hook.data.hits
+  }
+}
+
+/**
+ * Addresses that moved or are gone for good, the server looks them up before rendering any page.
+ * Sources are path patterns, see utils/server/redirectPattern.
+ */
+class RedirectsService extends BaseService<IRedirect> {
+  public before: IHooks = combineHooks(
+    {
+      create: [resetHits],
+      update: [keepHits],
+      patch: [keepHits]
+    },
+    restrictReadToAdmin(),
+    restrictToAdmin()
+  )
+
+  /**
+   * Hits are counted past the cache, so the admin list reads the database every time
+   */
+  public find (params: any): Promise<IRedirect[]> {
+    return params && params.provider ? Service.prototype.find.call(this, params) : super.find(params)
+  }
+
+  /**
+   * Where the path leads now, undefined when it is not redirected. Redirects are tried from the oldest one.
+   */
+  public async resolve (pathname: string): Promise<IRedirectMatch> {
+    const redirects = await this.findAll()
+
+    for (const redirect of redirects) {
+      const params: IRedirectParams = matchRedirect(redirect.source, pathname)
+
+      if (params) {
+        await countHit(redirect._id)
+
+        return {
+          status: redirect.status,
+          location: redirect.target && fillRedirect(redirect.target, params)
+        }
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * Points the old address of a moved document to the new one, redirects to the old address follow it
+   */
+  public async moved (source: string, target: string): Promise<IRedirect> {
+    const redirects = await this.findAll()
+    const existing = redirects.find((redirect: IRedirect): boolean => redirect.source === source)
+
+    await Promise.all(redirects.map((redirect: IRedirect): Promise<any> => {
+      // A document moved back to its old address would redirect to itself otherwise
+      if (redirect.source === target) {
+        return super.remove(redirect._id, {})
+      }
+
+      if (redirect.target === source && redirect !== existing) {
+        return super.patch(redirect._id, { target }, {})
+      }
+
+      return Promise.resolve()
+    }))
+
+    if (existing) {
+      return super.patch(existing._id, { target, status: 301 }, {})
+    }
+
+    return super.create({ source, target, status: 301, hits: 0 }, {})
+  }
+
+  public setup (app: any): void {
+    super.setup(app)
+    this.seedLegacy().catch(this.logError)
+  }
+
+  private findAll (): Promise<IRedirect[]> {
+    return super.find({ paginate: false, query: { $sort: { _created: 1 } } })
+  }
+
+  // One by one, redirects are tried in the order they were created
+  private async seedLegacy (): Promise<void> {
+    if (await countRedirects()) {
+      return
+    }
+
+    for (const redirect of legacyRedirects) {
+      await super.create({ ...redirect, hits: 0 }, {})
+    }
+  }
+}
+
+const redirectsService = (): any => new RedirectsService({
+  serviceName: redirectsServiceName,
+  validator: validateRedirect,
+  incremental: true,
+  Model: db
+})
+
+export {
+  redirectsService,
+  redirectsServiceName
+}
@@ -0,0 +1 @@
+export const redirectsServiceName = 'redirects'
@@ -0,0 +1,69 @@
+import { BadRequest } from 'feathers-errors'
+
+import { restrictReadToAdmin } from 'api/hooks'
+import { diffLines } from 'utils/server'
+
+import { revisionsServiceName } from './serviceName'
+
+// Models
+import { IHooks } from 'models/api'
+import { IPage } from 'models/pages'
+import { IPost } from 'models/posts'
+import { IRevision, IRevisionDiff } from 'models/revisions'
+
+const diffFields = ['title', 'subtitle', 'excerpt', 'content']
+
+class RevisionDiffService {
+  public before: IHooks = restrictReadToAdmin()
+  private app: any
+
+  private async getDocument (revision: IRevision, to: string, params: any): Promise<IPost | IPage> {
+    // Without `to` the revision is compared to the current state of the document
+    if (!to) {
+      return this.app.service(`/api/${revision.source}`).get(revision.documentId, { user: params.user })
+    }
+
+    const { document, documentId, source }: IRevision = await this.app.service(`/api/${revisionsServiceName}`).get(to)
+
+    if (documentId !== revision.documentId || source !== revision.source) {
+      throw new BadRequest('Revisions belong to different documents')
+    }
+
+    return document
+  }
+
+  public async find (params: any = {}): Promise<IRevisionDiff> {
+    const { from, to }: { from?: string, to?: string } = params.query || {}
+
+    if (!from) {
+      throw new BadRequest('Revision to compare is not specified')
+    }
+
+    const revision: IRevision = await this.app.service(`/api/${revisionsServiceName}`).get(from)
+    const before = revision.document
+    const after = await this.getDocument(revision, to, params)
+    const fields = {}
+
+    diffFields.forEach((field: string): void => {
+      if (before[field] !== after[field]) {
+        fields[field] = diffLines(before[field], after[field])
+      }
+    })
+
+    return {
+      from,
+      to,
+      fields
+    }
+  }
+
+  public setup (app: any): void {
+    this.app = app
+  }
+}
+
+const revisionDiffService = (): any => new RevisionDiffService()
+
+export {
+  revisionDiffService
+}
@@ -0,0 +1,46 @@
+import * as NeDB from 'nedb'
+
+import { BaseService } from 'api/base'
+import { restrictReadToAdmin, restrictToAdmin } from 'api/hooks'
+import { combineHooks } from 'utils'
+import { dbPath, validateRevision } from 'utils/server'
+
+import { revisionDiffService } from './diff'
+import { revisionRestoreService } from './restore'
+import { revisionDiffServiceName, revisionRestoreServiceName, revisionsServiceName } from './serviceName'
+
+// Models
+import { IHooks } from 'models/api'
+import { IRevision } from 'models/revisions'
+
+const db = new NeDB({
+  filename: dbPath(revisionsServiceName),
+  autoload: true
+})
+
+/**
+ * Previous states of posts and pages, saved by the saveRevision hook.
+ * Query by `documentId` and `source` to get the history of a single document, newest first.
+ */
+class RevisionsService extends BaseService<IRevision> {
+  public before: IHooks = combineHooks(
+    restrictReadToAdmin(),
+    restrictToAdmin()
+  )
+}
+
+const revisionsService = (): any => new RevisionsService({
+  serviceName: revisionsServiceName,
+  validator: validateRevision,
+  incremental: true,
+  Model: db
+})
+
+export {
+  revisionDiffService,
+  revisionDiffServiceName,
+  revisionRestoreService,
+  revisionRestoreServiceName,
+  revisionsService,
+  revisionsServiceName
+}
@@ -0,0 +1,38 @@
+import { restrictToAdmin } from 'api/hooks'
+import { omit } from 'utils/server/ramda'
+
+import { revisionsServiceName } from './serviceName'
+
+// Models
+import { IHooks } from 'models/api'
+import { IPage } from 'models/pages'
+import { IPost } from 'models/posts'
+import { IRevision, IRevisionRestore } from 'models/revisions'
+
+// Service fields and publication state are left as they are now
+const keptFields = ['_created', '_excerpt', '_html', '_id', '_pages', '_updated', 'author', 'publishAt', 'status']
+
+class RevisionRestoreService {
+  public before: IHooks = restrictToAdmin()
+  private app: any
+
+  /**
+   * Restoring is a regular patch, so the current state becomes a revision too and can be restored back
+   */
+  public async create ({ revision }: IRevisionRestore, params: any = {}): Promise<IPost | IPage> {
+    const revisions = this.app.service(`/api/${revisionsServiceName}`)
+    const { document, documentId, source }: IRevision = await revisions.get(revision)
+
+    return this.app.service(`/api/${source}`).patch(documentId, omit(keptFields, document), { user: params.user })
+  }
+
+  public setup (app: any): void {
+    this.app = app
+  }
+}
+
+const revisionRestoreService = (): any => new RevisionRestoreService()
+
+export {
+  revisionRestoreService
+}
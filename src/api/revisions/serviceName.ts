@@ -0,0 +1,3 @@
+export const revisionsServiceName = 'revisions'
+export const revisionDiffServiceName = `${revisionsServiceName}/diff`
+export const revisionRestoreServiceName = `${revisionsServiceName}/restore`
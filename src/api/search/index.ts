@@ -0,0 +1,117 @@
+import * as debug from 'debug'
+import { NotFound } from 'feathers-errors'
+
+import { pagesServiceName } from 'api/pages'
+import { postsPerPage, postsServiceName } from 'api/posts'
+import { calcPage, createSearchIndex } from 'utils/server'
+
+// Models
+import { IPaginatedResult } from 'models/pagination'
+import { ISearchIndex, ISearchResult, ISearchResultType } from 'models/search'
+import IDebugger = debug.IDebugger
+
+const searchServiceName = 'search'
+const sources: Array<{ serviceName: string, type: ISearchResultType }> = [
+  {
+    serviceName: postsServiceName,
+    type: 'post'
+  },
+  {
+    serviceName: pagesServiceName,
+    type: 'page'
+  }
+]
+
+const toKey = (type: ISearchResultType, _id: string): string => `${type}:${_id}`
+
+class SearchService {
+  private logInfo: IDebugger = debug(`k:db:${searchServiceName}:info`)
+  private logError: IDebugger = debug(`k:db:${searchServiceName}:error`)
+  private index: ISearchIndex = createSearchIndex()
+  private services: { [K: string]: any } = {}
+
+  private indexItem (type: ISearchResultType, item: ISearchResult): void {
+    const key = toKey(type, item._id)
+
+    // Drafts should never be found
+    if (item.status !== 'publish') {
+      this.index.remove(key)
+      return
+    }
+
+    this.index.add(key, {
+      title: item.title,
+      content: item._html || item.content
+    })
+  }
+
+  // Items removed without the event reaching the index are dropped from it instead of failing the search
+  private async getItem (key: string): Promise<ISearchResult | void> {
+    const separator = key.indexOf(':')
+    const type = key.slice(0, separator) as ISearchResultType
+
+    try {
+      const item = await this.services[type].get(key.slice(separator + 1))
+
+      return {
+        ...item,
+        type
+      }
+    } catch (error) {
+      if (!(error instanceof NotFound)) {
+        throw error
+      }
+
+      this.logError(`${key} is indexed but missing`)
+      this.index.remove(key)
+    }
+  }
+
+  public async find (params: any = {}): Promise<IPaginatedResult<ISearchResult>> {
+    const { q = '', pageNumber = 1 } = params.query || {}
+    const { $skip, $limit } = calcPage(postsPerPage, pageNumber)
+
+    this.logInfo('FIND', q, pageNumber)
+
+    const keys = this.index.search(q)
+    const items = await Promise.all(keys.slice($skip, $skip + $limit).map(
+      (key: string): Promise<ISearchResult | void> => this.getItem(key)
+    ))
+    const data = items.filter(Boolean) as ISearchResult[]
+
+    return {
+      total: keys.length,
+      limit: $limit,
+      skip: $skip,
+      data
+    }
+  }
+
+  public setup (app: any): void {
+    sources.forEach(({ serviceName, type }: { serviceName: string, type: ISearchResultType }): void => {
+      const service = app.service(`/api/${serviceName}`)
+      const update = (item: ISearchResult): void => this.indexItem(type, item)
+
+      this.services[type] = service
+
+      service.on('created', update)
+      service.on('updated', update)
+      service.on('patched', update)
+      service.on('removed', (item: ISearchResult): void => this.index.remove(toKey(type, item._id)))
+
+      service.find({ query: { status: 'publish' }, paginate: false })
+        .then((items: ISearchResult[]): void => {
+          items.forEach(update)
+          this.logInfo(`Indexed ${items.length} ${serviceName}`)
+        })
+        .catch(this.logError)
+    })
+  }
+}
+
+const searchService = (): any => new SearchService()
+
+export {
+  searchService,
+  searchServiceName
+}
@@ -1,27 +1,70 @@
 import * as NeDB from 'nedb'
 
 import { BaseService } from 'api/base'
-import { associateUser, createSlug, restrictToAdmin } from 'api/hooks'
-import { combineHooks } from 'utils'
+import { associateUser, createSlug, restrictByPermission } from 'api/hooks'
+import { postsServiceName } from 'api/posts'
+import { combineHooks, permissions } from 'utils'
 import { dbPath, validateTag } from 'utils/server'
 
+import { tagsMergeService } from './merge'
+import { tagsMergeServiceName, tagsServiceName } from './serviceName'
+
 import { IHooks } from 'models/api'
 import { ITag } from 'models/tags'
 
-const tagsServiceName = 'tags'
 const db = new NeDB({
   filename: dbPath(tagsServiceName),
   autoload: true
 })
 
+// Counters belong to the posts service, clients can not set them
+const resetCount = (hook: any): void => {
+  hook.data._count = 0
+}
+
+const keepCount = (hook: any): void => {
+  if (hook.params.provider) {
+    delete hook.data._count
+  }
+}
+
+const recountTag = async (hook: any): Promise<void> => {
+  await hook.app.service(`/api/${postsServiceName}`).recountTags([hook.id])
+}
+
 class TagsService extends BaseService<ITag> {
   public before: IHooks = combineHooks(
     {
-      create: [createSlug]
+      create: [createSlug, resetCount],
+      update: [keepCount],
+      patch: [keepCount]
     },
-    restrictToAdmin(),
+    restrictByPermission(permissions.tags),
     associateUser()
   )
+
+  // A replaced tag loses its counter along with the rest of the document
+  public after: IHooks = {
+    update: [recountTag]
+  }
+
+  private app: any
+
+  /**
+   * Posts do not keep references to removed tags
+   */
+  public async remove (_id: string, params: any): Promise<ITag> {
+    const result = await super.remove(_id, params)
+
+    await this.app.service(`/api/${postsServiceName}`).replaceTag(_id)
+
+    return result
+  }
+
+  public setup (app: any): void {
+    super.setup(app)
+    this.app = app
+  }
 }
 
 const tagsService = (): any => new TagsService({
@@ -31,6 +74,8 @@ const tagsService = (): any => new TagsService({
 })
 
 export {
+  tagsMergeService,
+  tagsMergeServiceName,
   tagsService,
   tagsServiceName
 }
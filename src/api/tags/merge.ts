@@ -0,0 +1,51 @@
+import { BadRequest } from 'feathers-errors'
+
+import { restrictByPermission } from 'api/hooks'
+import { postsServiceName } from 'api/posts'
+import { permissions } from 'utils'
+
+import { tagsServiceName } from './serviceName'
+
+// Models
+import { IHooks } from 'models/api'
+import { ITag, ITagsMerge } from 'models/tags'
+
+const toArray = <T> (source: T | T[]): T[] => Array.isArray(source) ? source : [source]
+
+class TagsMergeService {
+  public before: IHooks = restrictByPermission(permissions.tags)
+  private app: any
+
+  /**
+   * Moves posts from the source tags to the target one and removes the source tags
+   */
+  public async create ({ source, target }: ITagsMerge): Promise<ITag> {
+    const tags = this.app.service(`/api/${tagsServiceName}`)
+    const posts = this.app.service(`/api/${postsServiceName}`)
+    const sources = toArray(source || []).filter((tagId: string): boolean => tagId !== target)
+
+    if (!target || !sources.length) {
+      throw new BadRequest('Tags to merge are not specified')
+    }
+
+    // Fails with NotFound before any post is touched
+    await tags.get(target)
+
+    for (const tagId of sources) {
+      await posts.replaceTag(tagId, target)
+      await tags.remove(tagId)
+    }
+
+    return tags.get(target)
+  }
+
+  public setup (app: any): void {
+    this.app = app
+  }
+}
+
+const tagsMergeService = (): any => new TagsMergeService()
+
+export {
+  tagsMergeService
+}
@@ -0,0 +1,2 @@
+export const tagsServiceName = 'tags'
+export const tagsMergeServiceName = `${tagsServiceName}/merge`
@@ -0,0 +1,187 @@
+import * as crypto from 'crypto'
+import { BadRequest, NotFound } from 'feathers-errors'
+import * as fs from 'fs'
+import * as NeDB from 'nedb'
+
+import { BaseService } from 'api/base'
+import { requireAdminToWrite, restrictReadToAdmin, restrictToAdmin } from 'api/hooks'
+import { combineHooks, uploadUrlTemplate } from 'utils'
+import { dbPath, responsiveImages, uploadsPath, validateUpload } from 'utils/server'
+
+import { uploadsServiceName } from './serviceName'
+
+// Models
+import { IHooks } from 'models/api'
+import { IUpload, IUploadFile, IUploadVariant } from 'models/uploads'
+
+// Neither has typings for this TypeScript version
+const multer = require('multer')
+const sharp = require('sharp')
+
+const db = new NeDB({
+  filename: dbPath(uploadsServiceName),
+  autoload: true
+})
+
+const maxFileSize = 10 * 1024 * 1024
+// Widths of resized copies, up to twice the site column for dense screens
+const variantWidths = [320, 640, 1280]
+const extensions = {
+  gif: 'gif',
+  jpeg: 'jpg',
+  png: 'png',
+  webp: 'webp'
+}
+
+const writeFile = (filename: string, data: Buffer): Promise<void> => new Promise((resolve: any, reject: any): void => {
+  fs.writeFile(uploadsPath(filename), data, (error: Error): void => error ? reject(error) : resolve())
+})
+
+// Files that are already gone are fine, the record is what matters
+const removeFile = (filename: string): Promise<void> => new Promise((resolve: any, reject: any): void => {
+  fs.unlink(uploadsPath(filename), (error: NodeJS.ErrnoException): void =>
+    error && error.code !== 'ENOENT' ? reject(error) : resolve())
+})
+
+const filenameOf = (url: string): string => url.slice(uploadUrlTemplate('').length)
+
+// Only the description can be changed, the file and what is known about it stay as uploaded
+const keepFile = (hook: any): void => {
+  hook.data = { alt: hook.data.alt }
+}
+
+/**
+ * Multer keeps the file in memory and the service decides where it goes, so only admins get that far.
+ * Services see the request only through `req.feathers`, so the file is passed there.
+ */
+const uploadMiddleware = [
+  requireAdminToWrite,
+  multer({ storage: multer.memoryStorage(), limits: { fileSize: maxFileSize } }).single('file'),
+  (req: any, _: any, next: () => void): void => {
+    req.feathers.file = req.file
+    next()
+  }
+]
+
+/**
+ * Images for posts, stored on disk under names made of their content hash along with resized copies.
+ * Posts refer to them by url, renderContent adds srcset of the copies to such images.
+ */
+class UploadsService extends BaseService<IUpload> {
+  public before: IHooks = combineHooks(
+    {
+      update: [keepFile],
+      patch: [keepFile]
+    },
+    restrictReadToAdmin(),
+    restrictToAdmin()
+  )
+
+  /**
+   * The same image uploaded again is not stored twice, the existing upload is returned
+   */
+  public async create ({ alt }: Partial<IUpload>, params: any): Promise<IUpload> {
+    const file: IUploadFile = params.file
+
+    if (!file) {
+      throw new BadRequest('No file to upload')
+    }
+
+    const { format, width, height, orientation } = await sharp(file.buffer).metadata().catch((): any => ({}))
+    const extension = extensions[format]
+
+    if (!extension) {
+      throw new BadRequest('Only gif, jpeg, png and webp images can be uploaded')
+    }
+
+    const _id = crypto.createHash('sha256').update(file.buffer).digest('hex').slice(0, 32)
+
+    try {
+      return await super.get(_id)
+    } catch (error) {
+      if (!(error instanceof NotFound)) {
+        throw error
+      }
+    }
+
+    const filename = `${_id}.${extension}`
+    // Photos taken sideways are stored as is and turned by the EXIF orientation
+    const [originalWidth, originalHeight] = orientation >= 5 ? [height, width] : [width, height]
+
+    await writeFile(filename, file.buffer)
+
+    // Animation would be lost in resized copies of gifs
+    const widths = format === 'gif' ? [] : variantWidths.filter((variant: number): boolean => variant < originalWidth)
+    const variants = await Promise.all(widths.map((variant: number): Promise<IUploadVariant> => this.resize(
+      file.buffer,
+      `${_id}-${variant}.${extension}`,
+      variant
+    )))
+    const upload = {
+      _id,
+      filename,
+      width: originalWidth,
+      height: originalHeight,
+      mimeType: `image/${format}`,
+      size: file.size,
+      url: uploadUrlTemplate(filename),
+      variants,
+      ...(alt ? { alt } : {})
+    }
+
+    return super.create(upload, params)
+  }
+
+  public async remove (_id: string, params: any): Promise<IUpload> {
+    const upload = await super.remove(_id, params)
+
+    await Promise.all([upload.url, ...upload.variants.map(({ url }: IUploadVariant): string => url)]
+      .map((url: string): Promise<void> => removeFile(filenameOf(url))))
+
+    return upload
+  }
+
+  /**
+   * Adds srcset of the resized copies to uploaded images in rendered content
+   */
+  public async responsive (html: string): Promise<string> {
+    const uploads = await super.find({ paginate: false })
+
+    return responsiveImages(html, uploads)
+  }
+
+  public setup (app: any): void {
+    super.setup(app)
+
+    try {
+      fs.mkdirSync(uploadsPath(''))
+    } catch (error) {
+      if (error.code !== 'EEXIST') {
+        throw error
+      }
+    }
+  }
+
+  private async resize (buffer: Buffer, filename: string, width: number): Promise<IUploadVariant> {
+    const info = await sharp(buffer).rotate().resize(width).toFile(uploadsPath(filename))
+
+    return {
+      width: info.width,
+      height: info.height,
+      url: uploadUrlTemplate(filename)
+    }
+  }
+}
+
+const uploadsService = (): any => new UploadsService({
+  serviceName: uploadsServiceName,
+  validator: validateUpload,
+  incremental: true,
+  Model: db
+})
+
+export {
+  uploadMiddleware,
+  uploadsService,
+  uploadsServiceName
+}
@@ -1,25 +1,104 @@
 import * as NeDB from 'nedb'
 
 import { BaseService } from 'api/base'
-import { restrictToAdmin } from 'api/hooks'
-import { combineHooks } from 'utils'
-import { dbPath, validateUser } from 'utils/server'
+import { isAdmin, populateOptionalUser, restrictByPermission } from 'api/hooks'
+import { combineHooks, permissions } from 'utils'
+import { dbPath, filterQuery, publicProfile, validateUser } from 'utils/server'
+
+import { usersInvitesService } from './invites'
+import { usersRegisterService } from './register'
+import { usersResetService } from './reset'
+import {
+  usersInvitesServiceName,
+  usersRegisterServiceName,
+  usersResetServiceName,
+  usersServiceName
+} from './serviceName'
 
 // Models
 import { IHooks } from 'models/api'
-import { IUser } from 'models/user'
-
-const usersServiceName = 'users'
+import { IUser, IUserData } from 'models/user'
 
 const db = new NeDB({
   filename: dbPath(usersServiceName),
   autoload: true
 })
 
+// Visitors find authors by what the public profile shows
+const publicQueryFields = ['_id', 'name']
+const isPublicQueryField = (field: string): boolean => publicQueryFields.indexOf(field) !== -1
+
+const withoutPassword = ({ password: _, ...user }: IUserData & { password?: string }): IUserData => user
+
+/**
+ * Anyone may read users to show authors of posts, but only admins and the users themselves see more than
+ * the public profile. Authentication reads users internally, without a provider, and gets everything.
+ */
+const hidePrivate = (hook: any): void => {
+  if (!hook.params.provider) {
+    return
+  }
+
+  const { user } = hook.params
+  const project = (item: IUserData): IUserData =>
+    isAdmin(hook) || user && user._id === item._id ? withoutPassword(item) : publicProfile(item) as IUserData
+
+  hook.result = Array.isArray(hook.result) ? hook.result.map(project) : project(hook.result)
+}
+
+// Otherwise visitors could look users up by their emails and narrow password hashes down with $gt and $lt
+const ignorePrivateQuery = (hook: any): void => {
+  if (!hook.params.provider || isAdmin(hook) || !hook.params.query) {
+    return
+  }
+
+  hook.params.query = filterQuery(hook.params.query, isPublicQueryField)
+}
+
+// Users edit their own profiles, but only admins give roles
+const keepLevel = (hook: any): void => {
+  if (!hook.params.provider || isAdmin(hook)) {
+    return
+  }
+
+  if (hook.method === 'patch') {
+    delete hook.data.level
+    return
+  }
+
+  hook.data = { ...hook.data, level: hook.params.user.level }
+}
+
 class UsersService extends BaseService<IUser> {
   public before: IHooks = combineHooks(
-    restrictToAdmin()
+    {
+      find: [populateOptionalUser, ignorePrivateQuery],
+      get: [populateOptionalUser]
+    },
+    restrictByPermission(permissions.users),
+    {
+      update: [keepLevel],
+      patch: [keepLevel]
+    }
   )
+
+  public after: IHooks = {
+    find: [hidePrivate],
+    get: [hidePrivate],
+    create: [hidePrivate],
+    update: [hidePrivate],
+    patch: [hidePrivate],
+    remove: [hidePrivate]
+  }
+
+  // Changes are validated along with the stored user, which is read internally to get all of it
+  public update (_id: string, data: IUser, params: any): Promise<IUser> {
+    return super.update(_id, data, { ...params, provider: undefined })
+  }
+
+  public patch (_id: string, data: Partial<IUser>, params: any): Promise<IUser> {
+    return super.patch(_id, data, { ...params, provider: undefined })
+  }
 }
 
 const usersService = (): any => new UsersService({
@@ -29,6 +108,12 @@ const usersService = (): any => new UsersService({
 })
 
 export {
+  usersInvitesService,
+  usersInvitesServiceName,
+  usersRegisterService,
+  usersRegisterServiceName,
+  usersResetService,
+  usersResetServiceName,
   usersService,
   usersServiceName
 }
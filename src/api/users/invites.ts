@@ -0,0 +1,64 @@
+import { BadRequest, Conflict } from 'feathers-errors'
+
+import { restrictToAdmin } from 'api/hooks'
+import { absoluteUrl, registerUrl, tokenUrlTemplate, userRoles, UserRoles } from 'utils'
+
+import { usersServiceName } from './serviceName'
+import { issueToken } from './tokens'
+
+// Models
+import { IHooks } from 'models/api'
+import { IMailTransport } from 'models/mail'
+import { IUserInvite } from 'models/user'
+
+const inviteDays = 7
+
+class UsersInvitesService {
+  public before: IHooks = restrictToAdmin()
+  private app: any
+
+  /**
+   * Mails a one-time registration link, the invitee gets the role along with it.
+   * Inviting the same email again makes the previous link useless.
+   */
+  public async create ({ email, level = UserRoles.author }: IUserInvite): Promise<IUserInvite> {
+    if (!email) {
+      throw new BadRequest('Email is required')
+    }
+
+    if (userRoles.indexOf(level) === -1) {
+      throw new BadRequest('No such role')
+    }
+
+    const [registered] = await this.app.service(`/api/${usersServiceName}`).find({ query: { email }, paginate: false })
+
+    if (registered) {
+      throw new Conflict('The user is registered already')
+    }
+
+    const token = await issueToken('invite', email, inviteDays * 24 * 60 * 60 * 1000, { level })
+    const transport: IMailTransport = this.app.get('mailTransport')
+
+    await transport.send({
+      to: email,
+      subject: 'Приглашение',
+      text: [
+        `Вас пригласили писать в блог ${absoluteUrl('/')}`,
+        `Чтобы зарегистрироваться, перейдите по ссылке: ${absoluteUrl(tokenUrlTemplate(registerUrl, token))}`,
+        `Ссылка действует ${inviteDays} дней.`
+      ].join('\n\n')
+    })
+
+    return { email, level }
+  }
+
+  public setup (app: any): void {
+    this.app = app
+  }
+}
+
+const usersInvitesService = (): any => new UsersInvitesService()
+
+export {
+  usersInvitesService
+}
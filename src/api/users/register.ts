@@ -0,0 +1,51 @@
+import { Conflict } from 'feathers-errors'
+
+import { omit } from 'utils/server/ramda'
+
+import { usersServiceName } from './serviceName'
+import { checkPassword, checkToken, spendToken } from './tokens'
+
+// Models
+import { IRegistration, IUserData } from 'models/user'
+
+class UsersRegisterService {
+  private app: any
+
+  /**
+   * Creates the user an invite was sent to, with the email and the role of the invite
+   */
+  public async create ({ token, password, username, name }: IRegistration): Promise<IUserData> {
+    const invite = await checkToken('invite', token)
+    const users = this.app.service(`/api/${usersServiceName}`)
+
+    checkPassword(password)
+
+    const [registered] = await users.find({ query: { email: invite.email }, paginate: false })
+
+    if (registered) {
+      throw new Conflict('The user is registered already')
+    }
+
+    const user = await users.create({
+      email: invite.email,
+      level: invite.level,
+      password,
+      ...(username ? { username } : {}),
+      ...(name ? { name } : {})
+    })
+
+    await spendToken(invite)
+
+    return omit(['password'], user)
+  }
+
+  public setup (app: any): void {
+    this.app = app
+  }
+}
+
+const usersRegisterService = (): any => new UsersRegisterService()
+
+export {
+  usersRegisterService
+}
@@ -0,0 +1,76 @@
+import * as debug from 'debug'
+import { BadRequest } from 'feathers-errors'
+
+import { absoluteUrl, resetPasswordUrl, tokenUrlTemplate } from 'utils'
+
+import { usersResetServiceName, usersServiceName } from './serviceName'
+import { checkPassword, checkToken, issueToken, spendToken } from './tokens'
+
+// Models
+import { IMailTransport } from 'models/mail'
+import { IPasswordReset, IPasswordResetRequest, IUserData } from 'models/user'
+import IDebugger = debug.IDebugger
+
+const resetMinutes = 60
+
+class UsersResetService {
+  private app: any
+  private logError: IDebugger = debug(`k:db:${usersResetServiceName}:error`)
+
+  /**
+   * Mails a password reset link. The answer is the same whether the email is registered or not
+   * and the mail is sent after answering, so the endpoint can not be used to find out who has an account.
+   */
+  public async create ({ email }: IPasswordResetRequest): Promise<IPasswordResetRequest> {
+    if (!email) {
+      throw new BadRequest('Email is required')
+    }
+
+    const [user]: IUserData[] = await this.app.service(`/api/${usersServiceName}`)
+      .find({ query: { email }, paginate: false })
+
+    if (user) {
+      this.sendLink(user).catch(this.logError)
+    }
+
+    return { email }
+  }
+
+  /**
+   * Sets the new password, the token from the link is the id
+   */
+  public async update (token: string, { password }: IPasswordReset): Promise<IPasswordResetRequest> {
+    const reset = await checkToken('reset', token)
+
+    checkPassword(password)
+
+    await this.app.service(`/api/${usersServiceName}`).patch(reset.userId, { password })
+    await spendToken(reset)
+
+    return { email: reset.email }
+  }
+
+  public setup (app: any): void {
+    this.app = app
+  }
+
+  private async sendLink ({ _id, email }: IUserData): Promise<void> {
+    const token = await issueToken('reset', email, resetMinutes * 60 * 1000, { userId: _id })
+    const transport: IMailTransport = this.app.get('mailTransport')
+
+    await transport.send({
+      to: email,
+      subject: 'Восстановление пароля',
+      text: [
+        `Чтобы задать новый пароль, перейдите по ссылке: ${absoluteUrl(tokenUrlTemplate(resetPasswordUrl, token))}`,
+        `Ссылка действует ${resetMinutes} минут. Если вы не просили сменить пароль, просто удалите это письмо.`
+      ].join('\n\n')
+    })
+  }
+}
+
+const usersResetService = (): any => new UsersResetService()
+
+export {
+  usersResetService
+}
@@ -0,0 +1,4 @@
+export const usersServiceName = 'users'
+export const usersInvitesServiceName = `${usersServiceName}/invites`
+export const usersRegisterServiceName = `${usersServiceName}/register`
+export const usersResetServiceName = `${usersServiceName}/reset`
@@ -0,0 +1,68 @@
+import { BadRequest, Unprocessable } from 'feathers-errors'
+import * as NeDB from 'nedb'
+
+import { createToken, dbPath, expiresIn, hashToken, isExpired } from 'utils/server'
+
+// Models
+import { IUserToken, IUserTokenKind } from 'models/user'
+
+// Hashed passwords are validated by the users schema, so the length is checked before they are hashed
+const minPasswordLength = 8
+
+const db = new NeDB({
+  filename: dbPath('userTokens'),
+  autoload: true
+})
+
+const findToken = (query: object): Promise<IUserToken> => new Promise((resolve: any, reject: any): void => {
+  db.findOne(query, (error: Error, doc: IUserToken): void => error ? reject(error) : resolve(doc))
+})
+
+const insertToken = (token: IUserToken): Promise<IUserToken> => new Promise((resolve: any, reject: any): void => {
+  db.insert(token, (error: Error, doc: IUserToken): void => error ? reject(error) : resolve(doc))
+})
+
+const removeTokens = (query: object): Promise<number> => new Promise((resolve: any, reject: any): void => {
+  db.remove(query, { multi: true }, (error: Error, count: number): void => error ? reject(error) : resolve(count))
+})
+
+/**
+ * Stores a new token and returns it for the link. Only the latest link of the kind works for an email,
+ * expired tokens of any kind are cleaned up along the way.
+ */
+export const issueToken = async (
+  kind: IUserTokenKind,
+  email: string,
+  lifetime: number,
+  fields: Partial<IUserToken> = {}
+): Promise<string> => {
+  const token = createToken()
+
+  await removeTokens({ $or: [{ kind, email }, { expiresAt: { $lte: new Date() } }] })
+  await insertToken({ ...fields, _id: hashToken(token), kind, email, expiresAt: expiresIn(lifetime) })
+
+  return token
+}
+
+export const checkToken = async (kind: IUserTokenKind, token: string): Promise<IUserToken> => {
+  const stored = token ? await findToken({ _id: hashToken(String(token)), kind }) : undefined
+
+  if (!stored || isExpired(stored)) {
+    throw new BadRequest('The link is invalid or expired')
+  }
+
+  return stored
+}
+
+// Tokens are one-time, they are dropped once whatever they allow is done
+export const spendToken = ({ _id }: IUserToken): Promise<number> => removeTokens({ _id })
+
+// Shaped like schema errors, so forms show it next to the field
+export const checkPassword = (password: string): void => {
+  if (!password || String(password).length < minPasswordLength) {
+    throw new Unprocessable('Check data!', [{
+      dataPath: '.password',
+      message: `should NOT be shorter than ${minPasswordLength} characters`
+    }])
+  }
+}
@@ -0,0 +1,251 @@
+import { lookup, LookupAddress } from 'dns'
+import { BadRequest, TooManyRequests } from 'feathers-errors'
+import { Agent as HttpAgent, AgentOptions } from 'http'
+import { Agent as HttpsAgent } from 'https'
+import { isIP } from 'net'
+import * as NeDB from 'nedb'
+import { parse, resolve as resolveUrl } from 'url'
+
+import { BaseService } from 'api/base'
+import { restrictToAdmin } from 'api/hooks'
+import { postsServiceName } from 'api/posts'
+import { absoluteUrl, postUrlTemplate } from 'utils'
+import {
+  dbPath,
+  findLinks,
+  isPrivateAddress,
+  linksTo,
+  parseMention,
+  sendWebmention,
+  validateWebmention
+} from 'utils/server'
+
+import { webmentionsServiceName } from './serviceName'
+
+// Models
+import { IHooks } from 'models/api'
+import { IFetcher, IFetchOptions, IFetchResponse, IWebmention, IWebmentionRequest } from 'models/webmentions'
+
+interface IWebmentionsServiceOptions {
+  fetcher: IFetcher
+  Model: any
+}
+
+interface INodeFetchOptions extends IFetchOptions {
+  agent: HttpAgent
+  redirect: 'manual'
+  timeout: number
+  size: number
+}
+
+// On the server the package is node-fetch, which takes an agent, a timeout and a size limit, unlike the fetch of Node
+const nodeFetch: (url: string, options: INodeFetchOptions) => Promise<IFetchResponse> = require('isomorphic-fetch')
+
+const db = new NeDB({
+  filename: dbPath(webmentionsServiceName),
+  autoload: true
+})
+
+// Anyone may send a mention, but only admins edit them
+const { update, patch, remove } = restrictToAdmin()
+
+const httpRegExp = /^https?:\/\//i
+// Other sites are fetched on behalf of anyone, so they get little time and room
+const fetchTimeout = 10 * 1000
+const maxPageSize = 1024 * 1024
+const maxRedirects = 5
+// Sources are verified one by one, the queue is limited so that it can not grow without end
+const maxQueued = 100
+const postPathRegExp = new RegExp(`^${postUrlTemplate('([^/]+)')}?$`)
+
+// Mentions are accepted for posts only
+const targetPostId = (target: string): string | undefined => {
+  if (target.indexOf(absoluteUrl('/')) !== 0) {
+    return
+  }
+
+  const match = parse(target).pathname.match(postPathRegExp)
+
+  return match ? match[1] : undefined
+}
+
+const findMention = ({ source, target }: IWebmentionRequest): Promise<IWebmention> =>
+  new Promise((resolve: any, reject: any): void => {
+    db.findOne({ source, target }, (error: Error, doc: IWebmention): void => error ? reject(error) : resolve(doc))
+  })
+
+class WebmentionsService extends BaseService<IWebmention> {
+  public before: IHooks = {
+    update,
+    patch,
+    remove
+  }
+
+  private app: any
+  private fetcher: IFetcher
+  private sending: Promise<void> = Promise.resolve()
+  private verifying: Promise<void> = Promise.resolve()
+  private queued: number = 0
+
+  constructor ({ fetcher, Model }: IWebmentionsServiceOptions) {
+    super({
+      serviceName: webmentionsServiceName,
+      validator: validateWebmention,
+      Model
+    })
+
+    this.fetcher = fetcher
+  }
+
+  /**
+   * Receives a webmention for one of our posts. The source is fetched and checked later, in a queue,
+   * so senders get an answer right away and slow sources do not hold requests. The answer is the request itself.
+   */
+  public async create ({ source, target }: IWebmentionRequest): Promise<any> {
+    if (!httpRegExp.test(source || '') || !httpRegExp.test(target || '') || source === target) {
+      throw new BadRequest('Source and target should be different http urls')
+    }
+
+    const postId = targetPostId(target)
+
+    if (!postId) {
+      throw new BadRequest('Target does not accept webmentions')
+    }
+
+    try {
+      await this.app.service(`/api/${postsServiceName}`).get(postId)
+    } catch (error) {
+      throw new BadRequest('Target does not accept webmentions')
+    }
+
+    if (this.queued >= maxQueued) {
+      throw new TooManyRequests('Too many webmentions are waiting to be checked')
+    }
+
+    this.queued += 1
+    this.verifying = this.verifying
+      .then((): Promise<void> => this.verify({ source, target }, postId))
+      .catch(this.logError)
+      .then((): void => {
+        this.queued -= 1
+      })
+
+    return { source, target }
+  }
+
+  /**
+   * Queues webmentions to every site the source links to, sending never fails the caller
+   */
+  public send (source: string, html: string): void {
+    const targets = findLinks(html, source)
+      .filter((target: string): boolean => target.indexOf(absoluteUrl('/')) !== 0)
+
+    this.sending = this.sending.then((): Promise<any> => Promise.all(targets.map(
+      (target: string): Promise<boolean | void> => sendWebmention(this.fetcher, source, target).catch(this.logError)
+    ))).catch(this.logError)
+  }
+
+  public setup (app: any): void {
+    super.setup(app)
+    this.app = app
+  }
+
+  /**
+   * Saves the mention when the source links to the target.
+   * A source that does not link to the target any more removes the mention received before.
+   */
+  private async verify ({ source, target }: IWebmentionRequest, postId: string): Promise<void> {
+    const response = await this.fetcher(source)
+    const html = response.ok ? await response.text() : ''
+    const existing = await findMention({ source, target })
+
+    if (!linksTo(html, target)) {
+      if (existing) {
+        await super.remove(existing._id, {})
+      }
+
+      return
+    }
+
+    const mention = { ...parseMention(html, source, target), postId, source, target }
+
+    if (existing) {
+      await super.update(existing._id, mention, {})
+    } else {
+      await super.create(mention, {})
+    }
+  }
+}
+
+/**
+ * Resolves hosts for the connections themselves, so the addresses that are checked are the ones connected to
+ * and a host can not resolve to a public address for the check and to a local one for the request.
+ */
+const publicLookup = (hostname: string, options: any, callback: (error: Error, ...result: any[]) => void): void => {
+  lookup(hostname, options, (error: Error, address: string | LookupAddress[], family: number): void => {
+    const addresses = Array.isArray(address) ? address.map((item: LookupAddress): string => item.address) : [address]
+
+    if (!error && addresses.some(isPrivateAddress)) {
+      return callback(new BadRequest(`${hostname} resolves to a local address`))
+    }
+
+    callback(error, address, family)
+  })
+}
+
+// Agents pass options on to the sockets, typings of this Node version do not know about lookup yet
+interface ILookupAgentOptions extends AgentOptions {
+  lookup: typeof publicLookup
+}
+
+const agentOptions: ILookupAgentOptions = { lookup: publicLookup }
+const agents = {
+  'http:': new HttpAgent(agentOptions),
+  'https:': new HttpsAgent(agentOptions)
+}
+
+// Addresses are not looked up for hosts given as IPs, so those are checked here
+const checkHost = (url: string): void => {
+  const { hostname } = parse(url)
+  const ip = hostname && hostname.replace(/^\[|\]$/g, '')
+
+  if (!httpRegExp.test(url) || !hostname || isIP(ip) && isPrivateAddress(ip)) {
+    throw new BadRequest(`Fetching ${url} is not allowed`)
+  }
+}
+
+const fetchChecked = async (url: string, options: IFetchOptions, redirects: number): Promise<IFetchResponse> => {
+  checkHost(url)
+
+  const response = await nodeFetch(url, {
+    ...options,
+    agent: agents[parse(url).protocol],
+    redirect: 'manual',
+    timeout: fetchTimeout,
+    size: maxPageSize
+  })
+  const location = response.headers.get('location')
+
+  if (response.status < 300 || response.status >= 400 || !location) {
+    return response
+  }
+
+  if (redirects >= maxRedirects) {
+    throw new BadRequest(`Too many redirects at ${url}`)
+  }
+
+  return fetchChecked(resolveUrl(url, location), response.status === 303 ? {} : options, redirects + 1)
+}
+
+const fetchPage: IFetcher = (url: string, options: IFetchOptions = {}): Promise<IFetchResponse> =>
+  fetchChecked(url, options, 0)
+
+const webmentionsService = (fetcher: IFetcher = fetchPage): any => new WebmentionsService({
+  fetcher,
+  Model: db
+})
+
+export {
+  webmentionsService,
+  webmentionsServiceName
+}
@@ -0,0 +1 @@
+export const webmentionsServiceName = 'webmentions'
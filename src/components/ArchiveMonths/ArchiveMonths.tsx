@@ -0,0 +1,48 @@
+import * as cn from 'classnames'
+import * as React from 'react'
+import { Link } from 'components'
+import { monthUrlTemplate, periodTitle } from 'utils'
+
+import * as styles from './ArchiveMonths.css'
+
+// Models
+import { IArchiveMonth } from 'models/posts'
+
+interface IProps {
+  months: IArchiveMonth[]
+  pathname: string
+  className?: string
+}
+
+const ArchiveMonths: React.StatelessComponent<IProps> = ({ months, pathname, className }: IProps): JSX.Element => {
+  if (!months.length) {
+    return null
+  }
+
+  return (
+    <nav className={ cn(styles.months, className) }>
+      <h2 className={ styles.months_title }>Архив</h2>
+      <ul className={ styles.months_list }>
+        { months.map(({ year, month, count }: IArchiveMonth): JSX.Element => {
+          const url = monthUrlTemplate(year, month)
+
+          return (
+            <li key={ url } className={ styles.months_item }>
+              <Link
+                to={ url }
+                className={ cn({ [styles.months_active]: pathname.indexOf(url) === 0 }) }
+              >
+                { periodTitle(year, month) }
+              </Link>
+              <span className={ styles.months_count }>{ count }</span>
+            </li>
+          )
+        }) }
+      </ul>
+    </nav>
+  )
+}
+
+ArchiveMonths.displayName = 'ArchiveMonths'
+
+export { ArchiveMonths }
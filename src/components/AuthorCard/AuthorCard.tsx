@@ -0,0 +1,33 @@
+import * as cn from 'classnames'
+import * as React from 'react'
+import { isWebUrl } from 'utils'
+
+import * as styles from './AuthorCard.css'
+
+// Models
+import { IAuthor } from 'models/user'
+
+interface IProps {
+  author: IAuthor
+  className?: string
+}
+
+const AuthorCard: React.StatelessComponent<IProps> = ({ author, className }: IProps): JSX.Element => {
+  const { avatar, bio, name, url } = author
+
+  return (
+    <header className={ cn(styles.author, className) }>
+      { isWebUrl(avatar) && <img className={ styles.author_avatar } src={ avatar } alt=''/> }
+      <div>
+        <h1 className={ styles.author_name }>
+          { isWebUrl(url) ? <a href={ url } rel='me'>{ name }</a> : name }
+        </h1>
+        { bio && <p className={ styles.author_bio }>{ bio }</p> }
+      </div>
+    </header>
+  )
+}
+
+AuthorCard.displayName = 'AuthorCard'
+
+export { AuthorCard }
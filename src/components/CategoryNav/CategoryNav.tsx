@@ -0,0 +1,40 @@
+import * as cn from 'classnames'
+import * as React from 'react'
+import { Link } from 'components'
+import { isTagUrl, tagUrlTemplate } from 'utils'
+
+import * as styles from './CategoryNav.css'
+
+// Models
+import { ITag } from 'models/tags'
+
+interface IProps {
+  categories: ITag[]
+  pathname: string
+  className?: string
+}
+
+const CategoryNav: React.StatelessComponent<IProps> = ({ categories, pathname, className }: IProps): JSX.Element => {
+  if (!categories.length) {
+    return null
+  }
+
+  return (
+    <nav className={ cn(styles.categories, className) }>
+      { categories.map(({ _id, title }: ITag): JSX.Element => (
+        <Link
+          key={ _id }
+          to={ tagUrlTemplate(_id) }
+          unstyled={ true }
+          className={ cn(styles.categories_item, { [styles.categories_active]: isTagUrl(pathname, _id) }) }
+        >
+          { title }
+        </Link>
+      )) }
+    </nav>
+  )
+}
+
+CategoryNav.displayName = 'CategoryNav'
+
+export { CategoryNav }
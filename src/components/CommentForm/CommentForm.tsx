@@ -0,0 +1,140 @@
+import * as cn from 'classnames'
+import * as React from 'react'
+import { FormField, Text } from 'components'
+
+import * as styles from './CommentForm.css'
+
+// Models
+import { IFieldErrors } from 'models/admin'
+import { IFieldElement } from 'models/appication'
+import { IComment, ICommentFields } from 'models/comments'
+
+interface IProps {
+  className?: string
+  replyTo?: IComment
+  fieldErrors: IFieldErrors
+  hasError?: boolean
+  isSubmitting?: boolean
+  isSubmitted?: boolean
+  onSubmit (fields: ICommentFields): void
+  onCancelReply (): void
+}
+
+interface IState {
+  name: string
+  email: string
+  content: string
+}
+
+const fieldNames = ['name', 'email', 'content']
+
+const hasOtherErrors = (fieldErrors: IFieldErrors): boolean =>
+  Object.keys(fieldErrors).some((field: string): boolean => fieldNames.indexOf(field) === -1)
+
+class CommentForm extends React.PureComponent<IProps, IState> {
+  constructor () {
+    super()
+
+    this.state = {
+      name: '',
+      email: '',
+      content: ''
+    }
+
+    this.onChange = this.onChange.bind(this)
+    this.onSubmit = this.onSubmit.bind(this)
+  }
+
+  // Name and email stay for the next comment
+  public componentWillReceiveProps ({ isSubmitted }: IProps): void {
+    if (isSubmitted && !this.props.isSubmitted) {
+      this.setState({ content: '' })
+    }
+  }
+
+  private onChange ({ currentTarget: { name, value } }: React.ChangeEvent<IFieldElement>): void {
+    const update: Partial<IState> = { [name as keyof IState]: value }
+
+    this.setState(update as Pick<IState, keyof IState>)
+  }
+
+  private onSubmit (event: React.FormEvent<HTMLFormElement>): void {
+    const { replyTo } = this.props
+    const fields: ICommentFields = { ...this.state }
+
+    event.preventDefault()
+
+    if (replyTo) {
+      fields.parentId = replyTo._id
+    }
+
+    this.props.onSubmit(fields)
+  }
+
+  public render (): JSX.Element {
+    const { className, replyTo, fieldErrors, hasError, isSubmitting, isSubmitted, onCancelReply } = this.props
+    const { name, email, content } = this.state
+
+    return (
+      <form
+        className={ cn(styles.form, className) }
+        onSubmit={ this.onSubmit }
+      >
+        { isSubmitted && (
+          <Text className={ styles.form_notice }>Спасибо! Комментарий появится после проверки.</Text>
+        ) }
+        { hasError && (!Object.keys(fieldErrors).length || hasOtherErrors(fieldErrors)) && (
+          <Text className={ styles.form_error }>Не удалось отправить комментарий.</Text>
+        ) }
+        { replyTo && (
+          <Text className={ styles.form_reply }>
+            Ответ для { replyTo.name }
+            <button
+              className={ styles.form_cancel }
+              type='button'
+              onClick={ onCancelReply }
+            >
+              Отменить
+            </button>
+          </Text>
+        ) }
+        <FormField label='Имя' error={ fieldErrors.name }>
+          <input
+            type='text'
+            name='name'
+            value={ name }
+            onChange={ this.onChange }
+            required={ true }
+          />
+        </FormField>
+        <FormField label='Email, не публикуется' error={ fieldErrors.email }>
+          <input
+            type='email'
+            name='email'
+            value={ email }
+            onChange={ this.onChange }
+            required={ true }
+          />
+        </FormField>
+        <FormField label='Комментарий' error={ fieldErrors.content }>
+          <textarea
+            className={ styles.form_content }
+            name='content'
+            value={ content }
+            onChange={ this.onChange }
+            required={ true }
+          />
+        </FormField>
+        <button
+          className={ styles.form_button }
+          type='submit'
+          disabled={ isSubmitting }
+        >
+          Отправить
+        </button>
+      </form>
+    )
+  }
+}
+
+export { CommentForm }
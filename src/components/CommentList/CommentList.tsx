@@ -0,0 +1,68 @@
+import * as cn from 'classnames'
+import * as React from 'react'
+import { dateFormat } from 'utils'
+
+import * as styles from './CommentList.css'
+
+// Models
+import { IComment, ICommentNode } from 'models/comments'
+
+interface IProps {
+  className?: string
+  comments: ICommentNode[]
+  onReply (comment: IComment): void
+}
+
+interface ICommentProps {
+  node: ICommentNode
+  onReply (comment: IComment): void
+}
+
+const formatCreatedDate = dateFormat('YYYY/MM/DD hh:mm')
+const isofyDate = (date: string): string => (new Date(date)).toISOString()
+
+class CommentItem extends React.PureComponent<ICommentProps, {}> {
+  constructor () {
+    super()
+    this.onReply = this.onReply.bind(this)
+  }
+
+  private onReply (): void {
+    this.props.onReply(this.props.node.comment)
+  }
+
+  public render (): JSX.Element {
+    const { node: { comment, replies }, onReply } = this.props
+    const { _id, _created, name, content } = comment
+
+    return (
+      <li id={ `comment-${_id}` } className={ styles.comment }>
+        <div className={ styles.comment_header }>
+          <span className={ styles.comment_author }>{ name }</span>
+          <time dateTime={ isofyDate(_created) }>{ formatCreatedDate(_created) }</time>
+        </div>
+        <div className={ styles.comment_content }>{ content }</div>
+        <button
+          className={ styles.comment_reply }
+          type='button'
+          onClick={ this.onReply }
+        >
+          Ответить
+        </button>
+        { replies.length ? <CommentList comments={ replies } onReply={ onReply }/> : null }
+      </li>
+    )
+  }
+}
+
+const CommentList: React.StatelessComponent<IProps> = ({ className, comments, onReply }: IProps): JSX.Element => (
+  <ul className={ cn(styles.comments, className) }>
+    { comments.map((node: ICommentNode): JSX.Element => (
+      <CommentItem key={ node.comment._id } node={ node } onReply={ onReply }/>
+    )) }
+  </ul>
+)
+
+CommentList.displayName = 'CommentList'
+
+export { CommentList }
@@ -0,0 +1,21 @@
+import * as cn from 'classnames'
+import * as React from 'react'
+
+import * as styles from './FormField.css'
+
+interface IProps extends React.HTMLProps<HTMLLabelElement> {
+  label: string
+  error?: string
+}
+
+const FormField: React.StatelessComponent<IProps> = ({ label, error, className, children }: IProps): JSX.Element => (
+  <label className={ cn(styles.field, className, { [styles.field_invalid]: !!error }) }>
+    <span className={ styles.field_label }>{ label }</span>
+    { children }
+    { error && <span className={ styles.field_error }>{ error }</span> }
+  </label>
+)
+
+FormField.displayName = 'FormField'
+
+export { FormField }
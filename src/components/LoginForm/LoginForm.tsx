@@ -0,0 +1,84 @@
+import * as cn from 'classnames'
+import * as React from 'react'
+import { FormField, Link, Text } from 'components'
+import { resetPasswordUrl } from 'utils'
+
+import * as styles from './LoginForm.css'
+
+// Models
+import { IFieldElement } from 'models/appication'
+import { IUserCredentials } from 'models/user'
+
+interface IProps {
+  className?: string
+  hasError?: boolean
+  isFetching?: boolean
+  onLogin (credentials: IUserCredentials): void
+}
+
+class LoginForm extends React.PureComponent<IProps, IUserCredentials> {
+  constructor () {
+    super()
+
+    this.state = {
+      email: '',
+      password: ''
+    }
+
+    this.onChange = this.onChange.bind(this)
+    this.onSubmit = this.onSubmit.bind(this)
+  }
+
+  private onChange ({ currentTarget: { name, value } }: React.ChangeEvent<IFieldElement>): void {
+    const update: Partial<IUserCredentials> = { [name as keyof IUserCredentials]: value }
+
+    this.setState(update as Pick<IUserCredentials, keyof IUserCredentials>)
+  }
+
+  private onSubmit (event: React.FormEvent<HTMLFormElement>): void {
+    event.preventDefault()
+    this.props.onLogin(this.state)
+  }
+
+  public render (): JSX.Element {
+    const { className, hasError, isFetching } = this.props
+    const { email, password } = this.state
+
+    return (
+      <form
+        className={ cn(styles.login, className) }
+        onSubmit={ this.onSubmit }
+      >
+        { hasError && <Text className={ styles.login_error }>Неверный email или пароль.</Text> }
+        <FormField label='Email'>
+          <input
+            type='email'
+            name='email'
+            value={ email }
+            onChange={ this.onChange }
+            required={ true }
+          />
+        </FormField>
+        <FormField label='Пароль'>
+          <input
+            type='password'
+            name='password'
+            value={ password }
+            onChange={ this.onChange }
+            required={ true }
+          />
+        </FormField>
+        <button
+          className={ styles.login_button }
+          type='submit'
+          disabled={ isFetching }
+        >
+          Войти
+        </button>
+        <Link to={ resetPasswordUrl } className={ styles.login_reset }>Забыли пароль?</Link>
+      </form>
+    )
+  }
+}
+
+export { LoginForm }
@@ -1,5 +1,6 @@
 import * as React from 'react'
-import { Text } from 'components'
+import { Link, Text } from 'components'
+import { searchUrl } from 'utils'
 
 import * as styles from './NotFound.css'
 
@@ -14,7 +15,7 @@ const NotFound: React.StatelessComponent<React.HTMLProps<HTMLElement>> = (): JSX
         >404</Text>
       </div>
       <Text>
-        К сожалению, по этому адресу ничего нет. Попробуйте поиск.
+        К сожалению, по этому адресу ничего нет. Попробуйте <Link to={ searchUrl }>поиск</Link>.
       </Text>
     </article>
   )
@@ -0,0 +1,67 @@
+import * as cn from 'classnames'
+import * as React from 'react'
+import { Link } from 'components'
+import { dateFormat, postUrlTemplate } from 'utils'
+
+import * as styles from './PendingComment.css'
+
+// Models
+import { IComment, ICommentStatus } from 'models/comments'
+
+interface IProps {
+  className?: string
+  comment: IComment
+  disabled?: boolean
+  onModerate (comment: Partial<IComment>): void
+  onRemove (_id: string): void
+}
+
+const formatDate = dateFormat('YYYY/MM/DD hh:mm')
+
+class PendingComment extends React.PureComponent<IProps, {}> {
+  constructor () {
+    super()
+
+    this.onApprove = this.onApprove.bind(this)
+    this.onSpam = this.onSpam.bind(this)
+    this.onRemove = this.onRemove.bind(this)
+  }
+
+  private moderate (status: ICommentStatus): void {
+    this.props.onModerate({ _id: this.props.comment._id, status })
+  }
+
+  private onApprove (): void {
+    this.moderate('approved')
+  }
+
+  private onSpam (): void {
+    this.moderate('spam')
+  }
+
+  private onRemove (): void {
+    if (window.confirm(`Удалить комментарий от ${this.props.comment.name}?`)) {
+      this.props.onRemove(this.props.comment._id)
+    }
+  }
+
+  public render (): JSX.Element {
+    const { className, comment: { _created, content, email, name, postId }, disabled } = this.props
+
+    return (
+      <li className={ cn(styles.comment, className) }>
+        <div className={ styles.comment_header }>
+          { name } &lt;{ email }&gt;, { formatDate(_created) }, <Link to={ postUrlTemplate(postId) }>{ postId }</Link>
+        </div>
+        <div className={ styles.comment_content }>{ content }</div>
+        <div className={ styles.comment_actions }>
+          <button type='button' onClick={ this.onApprove } disabled={ disabled }>Одобрить</button>
+          <button type='button' onClick={ this.onSpam } disabled={ disabled }>Спам</button>
+          <button type='button' onClick={ this.onRemove } disabled={ disabled }>Удалить</button>
+        </div>
+      </li>
+    )
+  }
+}
+
+export { PendingComment }
@@ -1,35 +1,45 @@
-import { Header, NotFound } from 'components'
+import { Header, NotFound, Pagination } from 'components'
 import * as React from 'react'
 import { connect } from 'react-redux'
-import { postUrlTemplate } from 'utils'
-import { getPostFromState, getPageFromState, makeExcerpt } from 'utils'
+import {
+  getContentPages,
+  getPostFromState,
+  getPageFromState,
+  makeExcerpt,
+  pageUrlTemplate,
+  paginatedTemplate,
+  postUrlTemplate
+} from 'utils'
 import { pipe } from 'utils/ramda'
 
 // Types
-import { IPost } from 'models/posts'
+import { IAdjacentPosts, IPost } from 'models/posts'
 import { IPage } from 'models/pages'
 import { ITag } from 'models/tags'
 import { IStore } from 'models/store'
+import { IAuthor } from 'models/user'
 
 import { PostFooter } from './PostFooter'
+import { PostNavigation } from './PostNavigation'
 import * as style from './Post.css'
 
 interface IProps extends React.HTMLProps<HTMLElement> {
   itemId: string
   isSingle?: boolean
+  pageNumber?: number
   mod: 'post' | 'page'
 }
 
 interface IPostProps {
   item: IPost | IPage
   tags?: ITag[]
+  author?: IAuthor
+  excerptLength: number
+  adjacent?: IAdjacentPosts
 }
 
 type CombinedProps = IProps & IPostProps
 
-// TODO: move this to settings db
-const MAX_EXCERPT_LENGTH = 300
-
 const insertHtml = (html: string): JSX.Element => (
   <div
     className={ style.post_content }
@@ -37,17 +47,17 @@ const insertHtml = (html: string): JSX.Element => (
   />
 )
 
-const makeExcerptN = makeExcerpt(MAX_EXCERPT_LENGTH)
-
-const getContent = (content: string, excerpt: string, isSingle: boolean): string => {
+const getContent = (content: string, excerpt: string, isSingle: boolean, excerptLength: number): string => {
   if (isSingle) {
     return content
   }
 
-  return excerpt || makeExcerptN(content)
+  return excerpt || makeExcerpt(excerptLength)(content)
 }
 
-const renderArticle: (content: string, excerpt: string, isSingle: boolean) => JSX.Element = pipe(
+type IRenderArticle = (content: string, excerpt: string, isSingle: boolean, excerptLength: number) => JSX.Element
+
+const renderArticle: IRenderArticle = pipe(
   getContent,
   insertHtml
 )
@@ -57,24 +67,52 @@ const getItem = {
   page: getPageFromState
 }
 
+const getUrl = {
+  post: postUrlTemplate,
+  page: pageUrlTemplate
+}
+
+const pageLinkBuilder = (url: string): (pageNumber: number) => string =>
+  (pageNumber: number): string => pageNumber === 1 ? url : paginatedTemplate(pageNumber)(url)
+
+const getAdjacent = ({ adjacent, posts }: IStore, postId: string): IAdjacentPosts => {
+  const { previous, next } = adjacent[postId] || { previous: undefined, next: undefined }
+
+  return {
+    previous: posts.itemsById[previous],
+    next: posts.itemsById[next]
+  }
+}
+
 const mapStateToProps =
-  (state: IStore, { itemId, mod }: IProps): IPostProps =>
-    getItem[mod](state, itemId)
+  (state: IStore, { itemId, mod, isSingle }: IProps): IPostProps => ({
+    ...getItem[mod](state, itemId),
+    excerptLength: state.settings.excerptLength,
+    adjacent: isSingle && mod === 'post' ? getAdjacent(state, itemId) : {}
+  })
+
+const Post = connect(mapStateToProps)((props: CombinedProps): JSX.Element => {
+  const { item, tags, author, excerptLength, mod, isSingle, pageNumber = 1, adjacent, className } = props
 
-const Post = connect(mapStateToProps)(({ item, tags, mod, isSingle, className }: CombinedProps): JSX.Element => {
   if (!item._id) {
     return <NotFound />
   }
 
   const {
     _id,
+    _excerpt,
+    _html,
     content,
-    excerpt,
     title,
     subtitle
   } = item as IPost
 
-  const postUrl = postUrlTemplate(_id)
+  const postUrl = getUrl[mod](_id)
+  const pages = getContentPages(item)
+
+  if (isSingle && pages[pageNumber - 1] === undefined) {
+    return <NotFound />
+  }
 
   return (
     <article
@@ -93,14 +131,25 @@ const Post = connect(mapStateToProps)(({ item, tags, mod, isSingle, className }:
         />
       </header>
 
-      { renderArticle(content, excerpt, isSingle) }
+      { renderArticle(isSingle ? pages[pageNumber - 1] : _html || content, _excerpt, isSingle, excerptLength) }
+
+      { isSingle && pages.length > 1 && (
+        <Pagination
+          currentPage={ pageNumber }
+          linkBuilder={ pageLinkBuilder(postUrl) }
+          pageCount={ pages.length }
+        />
+      ) }
 
       <PostFooter
         className={ style.post_footer }
         item={ item }
         tags={ tags }
+        author={ author }
         mod={ mod }
       />
+
+      { isSingle && <PostNavigation { ...adjacent }/> }
     </article>
   )
 })
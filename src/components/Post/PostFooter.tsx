@@ -2,26 +2,43 @@ import * as React from 'react'
 import * as cn from 'classnames'
 
 import { Link } from 'components'
-import { postUrlTemplate, tagUrlTemplate } from 'utils'
-import { dateFormat } from 'utils'
+import { authorUrlTemplate, dateFormat, postUrlTemplate, tagUrlTemplate } from 'utils'
 
 // Types
 import { IPost } from 'models/posts'
 import { IPage } from 'models/pages'
 import { ITag } from 'models/tags'
+import { IAuthor } from 'models/user'
 
 import * as styles from './PostFooter.css'
 
 interface IProps extends React.HTMLProps<any> {
   item: IPost | IPage
   tags?: ITag[]
+  author?: IAuthor
   mod: 'post' | 'page'
 }
 
 const formatCreatedDate = dateFormat('YYYY/MM/DD')
 const isofyDate = (date: string): string => (new Date(date)).toISOString()
 
-const PostFooter: React.StatelessComponent<IProps> = ({ item, tags = [], mod, className }: IProps): JSX.Element => {
+const renderStatus = ({ status, publishAt }: IPost): JSX.Element => {
+  switch (status) {
+    case 'draft':
+      return <span className={ cn(styles.footer_item, styles.footer_draft) }>
+        Черновик
+      </span>
+    case 'scheduled':
+      return <span className={ cn(styles.footer_item, styles.footer_draft) }>
+        Запланирован на <time dateTime={ isofyDate(publishAt) }>{ formatCreatedDate(publishAt) }</time>
+      </span>
+    default:
+      return null
+  }
+}
+
+const PostFooter: React.StatelessComponent<IProps> = (props: IProps): JSX.Element => {
+  const { item, tags = [], author, mod, className } = props
   const {
     _id,
     _created,
@@ -33,6 +50,7 @@ const PostFooter: React.StatelessComponent<IProps> = ({ item, tags = [], mod, cl
   return (
     <footer>
       <nav className={ cn(className, styles.footer) }>
+        { renderStatus(item as IPost) }
         { mod === 'post' && <Link
           to={ postUrl }
           className={ styles.footer_item }
@@ -45,6 +63,13 @@ const PostFooter: React.StatelessComponent<IProps> = ({ item, tags = [], mod, cl
             dateTime={ isofyDate(_updated) }
           /> : null }
         </Link> }
+        { mod === 'post' && author && <Link
+          to={ authorUrlTemplate(author._id) }
+          rel='author'
+          className={ styles.footer_item }
+        >
+          { author.name }
+        </Link> }
         { tags.length ? tags.map((tag: ITag): JSX.Element => {
           const { _id: tagId, title } = tag
 
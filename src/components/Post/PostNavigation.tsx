@@ -0,0 +1,42 @@
+import * as React from 'react'
+import * as cn from 'classnames'
+
+import { Link } from 'components'
+import { postUrlTemplate } from 'utils'
+
+// Types
+import { IAdjacentPosts, IPost } from 'models/posts'
+
+import * as styles from './PostNavigation.css'
+
+interface IProps extends IAdjacentPosts {
+  className?: string
+}
+
+const renderLink = (post: IPost, rel: 'prev' | 'next', label: string): JSX.Element => post ? (
+  <Link
+    to={ postUrlTemplate(post._id) }
+    rel={ rel }
+    className={ cn(styles.navigation_item, styles[`navigation_${rel}`]) }
+  >
+    <span className={ styles.navigation_label }>{ label }</span>
+    { post.title || post._id }
+  </Link>
+) : null
+
+const PostNavigation: React.StatelessComponent<IProps> = ({ previous, next, className }: IProps): JSX.Element => {
+  if (!previous && !next) {
+    return null
+  }
+
+  return (
+    <nav className={ cn(className, styles.navigation) }>
+      { renderLink(previous, 'prev', 'Предыдущая запись') }
+      { renderLink(next, 'next', 'Следующая запись') }
+    </nav>
+  )
+}
+
+PostNavigation.displayName = 'PostNavigation'
+
+export { PostNavigation }
@@ -0,0 +1,175 @@
+import * as cn from 'classnames'
+import * as React from 'react'
+import { FormField, Text } from 'components'
+
+import * as styles from './PostForm.css'
+
+// Models
+import { IFieldErrors, IPostDraft, IPostStatus } from 'models/admin'
+import { IFieldElement } from 'models/appication'
+import { IPost } from 'models/posts'
+
+interface IProps {
+  className?: string
+  item: Partial<IPost>
+  fieldErrors: IFieldErrors
+  hasError?: boolean
+  isSaving?: boolean
+  onSave (post: IPostDraft): void
+}
+
+interface IState {
+  slug: string
+  title: string
+  subtitle: string
+  content: string
+  status: IPostStatus
+  publishAt: string
+}
+
+const fields = ['_id', 'title', 'subtitle', 'content', 'status', 'publishAt']
+
+// datetime-local inputs know nothing about time zones, dates are edited in UTC like they are shown on the site
+const toInputDate = (date?: string): string => date ? new Date(date).toISOString().slice(0, 16) : ''
+const fromInputDate = (value: string): string => {
+  const date = new Date(`${value}Z`)
+
+  // Browsers without datetime-local support send whatever was typed, the service reports it as invalid
+  return isNaN(date.getTime()) ? value : date.toISOString()
+}
+
+const stateFromItem = (item: Partial<IPost>): IState => {
+  const { _id = '', title = '', subtitle = '', content = '', status = 'draft', publishAt } = item
+
+  return {
+    slug: _id,
+    title,
+    subtitle,
+    content,
+    status: status === 'scheduled' ? 'publish' : status,
+    publishAt: toInputDate(publishAt)
+  }
+}
+
+const hasOtherErrors = (fieldErrors: IFieldErrors): boolean =>
+  Object.keys(fieldErrors).some((field: string): boolean => fields.indexOf(field) === -1)
+
+class PostForm extends React.PureComponent<IProps, IState> {
+  constructor (props: IProps) {
+    super(props)
+
+    this.state = stateFromItem(props.item)
+
+    this.onChange = this.onChange.bind(this)
+    this.onSubmit = this.onSubmit.bind(this)
+  }
+
+  public componentWillReceiveProps ({ item }: IProps): void {
+    if (item._id !== this.props.item._id) {
+      this.setState(stateFromItem(item))
+    }
+  }
+
+  private onChange ({ currentTarget: { name, value } }: React.ChangeEvent<IFieldElement>): void {
+    const update: Partial<IState> = { [name as keyof IState]: value }
+
+    this.setState(update as Pick<IState, keyof IState>)
+  }
+
+  private onSubmit (event: React.FormEvent<HTMLFormElement>): void {
+    const { slug, title, subtitle, content, status, publishAt } = this.state
+    const post: IPostDraft = {
+      _id: this.props.item._id,
+      slug,
+      title,
+      subtitle,
+      content,
+      status
+    }
+
+    event.preventDefault()
+
+    // The posts service turns a published post with a future date into a scheduled one
+    if (publishAt) {
+      post.publishAt = fromInputDate(publishAt)
+    }
+
+    this.props.onSave(post)
+  }
+
+  public render (): JSX.Element {
+    const { className, fieldErrors, hasError, isSaving } = this.props
+    const { slug, title, subtitle, content, status, publishAt } = this.state
+
+    return (
+      <form
+        className={ cn(styles.form, className) }
+        onSubmit={ this.onSubmit }
+      >
+        { hasError && (!Object.keys(fieldErrors).length || hasOtherErrors(fieldErrors)) && (
+          <Text className={ styles.form_error }>Не удалось сохранить запись.</Text>
+        ) }
+        <FormField label='Заголовок' error={ fieldErrors.title }>
+          <input
+            type='text'
+            name='title'
+            value={ title }
+            onChange={ this.onChange }
+          />
+        </FormField>
+        <FormField label='Адрес' error={ fieldErrors._id }>
+          <input
+            type='text'
+            name='slug'
+            value={ slug }
+            placeholder='Из заголовка'
+            onChange={ this.onChange }
+          />
+        </FormField>
+        <FormField label='Подзаголовок' error={ fieldErrors.subtitle }>
+          <input
+            type='text'
+            name='subtitle'
+            value={ subtitle }
+            onChange={ this.onChange }
+          />
+        </FormField>
+        <FormField label='Текст' error={ fieldErrors.content }>
+          <textarea
+            className={ styles.form_content }
+            name='content'
+            value={ content }
+            onChange={ this.onChange }
+          />
+        </FormField>
+        <FormField label='Статус' error={ fieldErrors.status }>
+          <select
+            name='status'
+            value={ status }
+            onChange={ this.onChange }
+          >
+            <option value='draft'>Черновик</option>
+            <option value='publish'>Опубликовать</option>
+          </select>
+        </FormField>
+        <FormField label='Дата публикации (UTC)' error={ fieldErrors.publishAt }>
+          <input
+            type='datetime-local'
+            name='publishAt'
+            value={ publishAt }
+            onChange={ this.onChange }
+          />
+        </FormField>
+        <button
+          className={ styles.form_button }
+          type='submit'
+          disabled={ isSaving }
+        >
+          Сохранить
+        </button>
+      </form>
+    )
+  }
+}
+
+export { PostForm }
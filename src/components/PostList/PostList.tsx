@@ -4,27 +4,32 @@ import { Post } from 'components'
 
 import * as styles from './PostList.css'
 
+type IMod = 'post' | 'page'
+
 interface IProps {
   itemIds: string[]
+  mods?: {
+    [K: string]: IMod
+  }
 }
 
-const renderPost = (itemId: string): JSX.Element => (
+const renderPost = (mods: IProps['mods']): (itemId: string) => JSX.Element => (itemId: string): JSX.Element => (
   <Post
     className={ styles.postlist_item }
     key={ itemId }
     itemId={ itemId }
-    mod='post'
+    mod={ mods[itemId] || 'post' }
   />
 )
 
 const PostList: React.StatelessComponent<IProps> = (props: IProps): JSX.Element => {
-  const { itemIds = [] } = props
+  const { itemIds = [], mods = {} } = props
 
   return (
     <div
       className={ styles.postlist }
     >
-      { itemIds.map(renderPost) }
+      { itemIds.map(renderPost(mods)) }
     </div>
   )
 }
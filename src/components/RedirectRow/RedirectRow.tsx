@@ -0,0 +1,44 @@
+import * as React from 'react'
+
+import * as styles from './RedirectRow.css'
+
+// Models
+import { IRedirect } from 'models/redirects'
+
+interface IProps {
+  redirect: IRedirect
+  disabled?: boolean
+  onRemove (_id: string): void
+}
+
+class RedirectRow extends React.PureComponent<IProps, {}> {
+  constructor () {
+    super()
+
+    this.onRemove = this.onRemove.bind(this)
+  }
+
+  private onRemove (): void {
+    if (window.confirm(`Удалить перенаправление с ${this.props.redirect.source}?`)) {
+      this.props.onRemove(this.props.redirect._id)
+    }
+  }
+
+  public render (): JSX.Element {
+    const { redirect: { source, target, status, hits }, disabled } = this.props
+
+    return (
+      <tr className={ styles.redirect }>
+        <td className={ styles.redirect_path }>{ source }</td>
+        <td className={ styles.redirect_path }>{ target || '—' }</td>
+        <td>{ status }</td>
+        <td className={ styles.redirect_hits }>{ hits || 0 }</td>
+        <td>
+          <button type='button' disabled={ disabled } onClick={ this.onRemove }>Удалить</button>
+        </td>
+      </tr>
+    )
+  }
+}
+
+export { RedirectRow }
@@ -0,0 +1,39 @@
+import * as cn from 'classnames'
+import * as React from 'react'
+import { Link, Title } from 'components'
+import { postUrlTemplate } from 'utils'
+
+import * as styles from './RelatedPosts.css'
+
+// Models
+import { IPost } from 'models/posts'
+
+interface IProps {
+  className?: string
+  posts: IPost[]
+}
+
+const renderPost = ({ _id, title, subtitle }: IPost): JSX.Element => (
+  <li key={ _id } className={ styles.related_item }>
+    <Link to={ postUrlTemplate(_id) }>{ title || subtitle || _id }</Link>
+  </li>
+)
+
+const RelatedPosts: React.StatelessComponent<IProps> = ({ className, posts }: IProps): JSX.Element => {
+  if (!posts.length) {
+    return null
+  }
+
+  return (
+    <section className={ cn(styles.related, className) }>
+      <Title level={ 2 } size={ 20 }>Похожие записи</Title>
+      <ul className={ styles.related_list }>
+        { posts.map(renderPost) }
+      </ul>
+    </section>
+  )
+}
+
+RelatedPosts.displayName = 'RelatedPosts'
+
+export { RelatedPosts }
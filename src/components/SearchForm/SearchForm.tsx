@@ -0,0 +1,37 @@
+import * as cn from 'classnames'
+import * as React from 'react'
+import { searchUrl } from 'utils'
+
+import * as styles from './SearchForm.css'
+
+interface IProps extends React.HTMLProps<HTMLFormElement> {
+  query?: string
+}
+
+// Plain GET form, so search works even before the client bundle is loaded
+const SearchForm: React.StatelessComponent<IProps> = ({ query = '', className }: IProps): JSX.Element => (
+  <form
+    action={ searchUrl }
+    method='get'
+    role='search'
+    className={ cn(styles.search, className) }
+  >
+    <input
+      className={ styles.search_input }
+      type='search'
+      name='q'
+      defaultValue={ query }
+      placeholder='Поиск'
+    />
+    <button
+      className={ styles.search_button }
+      type='submit'
+    >
+      Найти
+    </button>
+  </form>
+)
+
+SearchForm.displayName = 'SearchForm'
+
+export { SearchForm }
@@ -0,0 +1,23 @@
+import * as React from 'react'
+import * as Helmet from 'react-helmet'
+import { Text } from 'components'
+
+import * as styles from './ServerError.css'
+
+// Rendered by the server outside of the router, so it links with plain anchors
+const ServerError: React.StatelessComponent<React.HTMLProps<HTMLElement>> = (): JSX.Element => {
+  return (
+    <article className={ styles.serverError }>
+      <Helmet title='Ошибка сервера'/>
+      <Text
+        tag={ 'strong' }
+        className={ styles.serverError__500 }
+      >500</Text>
+      <Text>
+        Что-то сломалось на сервере. Попробуйте обновить страницу чуть позже или вернуться на <a href='/'>главную</a>.
+      </Text>
+    </article>
+  )
+}
+
+export { ServerError }
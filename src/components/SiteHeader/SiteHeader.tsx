@@ -1,14 +1,26 @@
-import { Box, Flex, Header, Link } from 'components'
+import { Box, CategoryNav, Flex, Header, Link } from 'components'
 import * as React from 'react'
 
 import * as s from './SiteHeader.css'
 
+// Models
+import { ITag } from 'models/tags'
+
 interface IProps {
   isMainPage: boolean
   headline: string
+  siteTitle: string
+  categories: ITag[]
+  pathname: string
 }
 
-const SiteHeader: React.StatelessComponent<IProps> = ({ headline, isMainPage }: IProps): JSX.Element => (
+const SiteHeader: React.StatelessComponent<IProps> = ({
+                                                        headline,
+                                                        isMainPage,
+                                                        siteTitle,
+                                                        categories,
+                                                        pathname
+                                                      }: IProps): JSX.Element => (
   <Flex
     is='div'
     className={ s.site_header }
@@ -24,11 +36,15 @@ const SiteHeader: React.StatelessComponent<IProps> = ({ headline, isMainPage }:
     <Box>
       <Header
         titleLink='/'
-        titleText='Пингвин Рыба Есть'
+        titleText={ siteTitle }
         subtitle={ headline }
         titleLevel={ isMainPage ? 1 : 2 }
         titleSize={ 28 }
       />
+      <CategoryNav
+        categories={ categories }
+        pathname={ pathname }
+      />
     </Box>
   </Flex>
 )
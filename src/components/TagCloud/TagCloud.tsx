@@ -0,0 +1,48 @@
+import * as cn from 'classnames'
+import * as React from 'react'
+import { Link } from 'components'
+import { isTagUrl, tagCloud, tagUrlTemplate } from 'utils'
+
+import * as styles from './TagCloud.css'
+
+// Models
+import { ITag, ITagWeight } from 'models/tags'
+
+interface IProps {
+  tags: ITag[]
+  pathname: string
+  className?: string
+}
+
+// Each weight has its own font size in the styles
+const weightSteps = 5
+
+const TagCloud: React.StatelessComponent<IProps> = ({ tags, pathname, className }: IProps): JSX.Element => {
+  const weights = tagCloud(tags, weightSteps)
+
+  if (!weights.length) {
+    return null
+  }
+
+  return (
+    <nav className={ cn(styles.cloud, className) }>
+      { weights.map(({ tag: { _id, _count, title }, weight }: ITagWeight): JSX.Element => (
+        <Link
+          key={ _id }
+          to={ tagUrlTemplate(_id) }
+          rel='tag'
+          title={ `Записей: ${_count}` }
+          className={ cn(styles.cloud_item, styles[`cloud_weight${weight}`], {
+            [styles.cloud_active]: isTagUrl(pathname, _id)
+          }) }
+        >
+          { title }
+        </Link>
+      )) }
+    </nav>
+  )
+}
+
+TagCloud.displayName = 'TagCloud'
+
+export { TagCloud }
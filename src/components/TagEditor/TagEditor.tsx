@@ -0,0 +1,114 @@
+import * as React from 'react'
+
+import * as styles from './TagEditor.css'
+
+// Models
+import { IFieldElement } from 'models/appication'
+import { ITag, ITagsMerge } from 'models/tags'
+
+interface IProps {
+  tag: ITag
+  tags: ITag[]
+  disabled?: boolean
+  onRename (tag: Partial<ITag>): void
+  onMerge (merge: ITagsMerge): void
+  onRemove (_id: string): void
+}
+
+interface IState {
+  title: string
+  target: string
+}
+
+const renderOption = ({ _id, title }: ITag): JSX.Element => (
+  <option key={ _id } value={ _id }>{ title }</option>
+)
+
+class TagEditor extends React.PureComponent<IProps, IState> {
+  constructor (props: IProps) {
+    super(props)
+
+    this.state = {
+      title: props.tag.title,
+      target: ''
+    }
+
+    this.onChange = this.onChange.bind(this)
+    this.onRename = this.onRename.bind(this)
+    this.onMerge = this.onMerge.bind(this)
+    this.onRemove = this.onRemove.bind(this)
+  }
+
+  public componentWillReceiveProps ({ tag }: IProps): void {
+    if (tag.title !== this.props.tag.title) {
+      this.setState({ title: tag.title })
+    }
+  }
+
+  private onChange ({ currentTarget: { name, value } }: React.ChangeEvent<IFieldElement>): void {
+    const update: Partial<IState> = { [name as keyof IState]: value }
+
+    this.setState(update as Pick<IState, keyof IState>)
+  }
+
+  private onRename (event: React.FormEvent<HTMLFormElement>): void {
+    event.preventDefault()
+    this.props.onRename({
+      _id: this.props.tag._id,
+      title: this.state.title
+    })
+  }
+
+  private onMerge (): void {
+    this.props.onMerge({
+      source: this.props.tag._id,
+      target: this.state.target
+    })
+  }
+
+  private onRemove (): void {
+    if (window.confirm(`Удалить метку «${this.props.tag.title}»?`)) {
+      this.props.onRemove(this.props.tag._id)
+    }
+  }
+
+  public render (): JSX.Element {
+    const { tag, tags, disabled } = this.props
+    const { title, target } = this.state
+    const targets = tags.filter(({ _id }: ITag): boolean => _id !== tag._id)
+
+    return (
+      <tr className={ styles.tag }>
+        <td>
+          <form className={ styles.tag_rename } onSubmit={ this.onRename }>
+            <input
+              type='text'
+              name='title'
+              value={ title }
+              onChange={ this.onChange }
+              required={ true }
+            />
+            <button type='submit' disabled={ disabled || title === tag.title }>Переименовать</button>
+          </form>
+        </td>
+        <td className={ styles.tag_count }>{ tag._count || 0 }</td>
+        <td>
+          <select
+            name='target'
+            value={ target }
+            onChange={ this.onChange }
+          >
+            <option value=''>Объединить с...</option>
+            { targets.map(renderOption) }
+          </select>
+          <button type='button' disabled={ disabled || !target } onClick={ this.onMerge }>Объединить</button>
+        </td>
+        <td>
+          <button type='button' disabled={ disabled } onClick={ this.onRemove }>Удалить</button>
+        </td>
+      </tr>
+    )
+  }
+}
+
+export { TagEditor }
@@ -0,0 +1,58 @@
+import * as React from 'react'
+
+import * as styles from './UploadItem.css'
+
+// Models
+import { IUpload } from 'models/uploads'
+
+interface IProps {
+  upload: IUpload
+  disabled?: boolean
+  onRemove (_id: string): void
+}
+
+// Markdown to paste into a post, the site adds the resized copies when it renders the post
+const markdownOf = ({ alt = '', url }: IUpload): string => `![${alt}](${url})`
+
+const selectAll = ({ currentTarget }: React.FocusEvent<HTMLInputElement>): void => currentTarget.select()
+
+class UploadItem extends React.PureComponent<IProps, {}> {
+  constructor () {
+    super()
+
+    this.onRemove = this.onRemove.bind(this)
+  }
+
+  private onRemove (): void {
+    if (window.confirm('Удалить файл? Записи, в которых он есть, останутся без картинки.')) {
+      this.props.onRemove(this.props.upload._id)
+    }
+  }
+
+  public render (): JSX.Element {
+    const { upload, disabled } = this.props
+    const { alt, url, width, height, variants } = upload
+    const [preview = upload] = variants
+
+    return (
+      <li className={ styles.upload }>
+        <a href={ url } target='_blank'>
+          <img className={ styles.upload_preview } src={ preview.url } alt={ alt }/>
+        </a>
+        <div className={ styles.upload_info }>
+          <span className={ styles.upload_size }>{ width }×{ height }</span>
+          <input
+            className={ styles.upload_markdown }
+            type='text'
+            value={ markdownOf(upload) }
+            readOnly={ true }
+            onFocus={ selectAll }
+          />
+          <button type='button' disabled={ disabled } onClick={ this.onRemove }>Удалить</button>
+        </div>
+      </li>
+    )
+  }
+}
+
+export { UploadItem }
@@ -0,0 +1,83 @@
+import * as cn from 'classnames'
+import * as React from 'react'
+
+import { isWebUrl } from 'utils'
+
+import * as styles from './WebmentionList.css'
+
+// Models
+import { IWebmention, IWebmentionType } from 'models/webmentions'
+
+interface IProps {
+  className?: string
+  mentions: IWebmention[]
+}
+
+const reactionTypes: IWebmentionType[] = ['like', 'repost']
+
+const reactionLabels = {
+  like: 'Понравилось',
+  repost: 'Поделились'
+}
+
+const byDate = (a: IWebmention, b: IWebmention): number =>
+  new Date(a._created).getTime() - new Date(b._created).getTime()
+
+const authorName = ({ author, source }: IWebmention): string => author ? author.name : source
+
+const renderReaction = (mention: IWebmention): JSX.Element => {
+  const { _id, author, source } = mention
+
+  return (
+    <a key={ _id } href={ source } className={ styles.mentions_reaction } rel='nofollow'>
+      { author && isWebUrl(author.photo)
+        ? <img src={ author.photo } alt={ authorName(mention) } className={ styles.mentions_photo }/>
+        : authorName(mention) }
+    </a>
+  )
+}
+
+const renderReactions = (mentions: IWebmention[], type: IWebmentionType): JSX.Element => {
+  const reactions = mentions.filter((mention: IWebmention): boolean => mention.type === type)
+
+  return reactions.length ? (
+    <div key={ type } className={ styles.mentions_reactions }>
+      <span className={ styles.mentions_label }>{ reactionLabels[type] }:</span>
+      { reactions.map(renderReaction) }
+    </div>
+  ) : null
+}
+
+const renderReply = (mention: IWebmention): JSX.Element => {
+  const { _id, content, source } = mention
+
+  return (
+    <li key={ _id } className={ styles.mentions_reply }>
+      <a href={ source } rel='nofollow' className={ styles.mentions_author }>{ authorName(mention) }</a>
+      { content && <div className={ styles.mentions_content }>{ content }</div> }
+    </li>
+  )
+}
+
+/**
+ * Reactions from other sites: likes and reposts as a row of authors, replies and mentions as a list
+ */
+const WebmentionList: React.StatelessComponent<IProps> = ({ className, mentions }: IProps): JSX.Element => {
+  const sorted = mentions.slice().sort(byDate)
+  const replies = sorted.filter(({ type }: IWebmention): boolean => reactionTypes.indexOf(type) === -1)
+
+  if (!sorted.length) {
+    return null
+  }
+
+  return (
+    <section className={ cn(styles.mentions, className) }>
+      { reactionTypes.map((type: IWebmentionType): JSX.Element => renderReactions(sorted, type)) }
+      { replies.length ? <ul className={ styles.mentions_replies }>{ replies.map(renderReply) }</ul> : null }
+    </section>
+  )
+}
+
+WebmentionList.displayName = 'WebmentionList'
+
+export { WebmentionList }
@@ -1,4 +1,8 @@
 export { SiteHeader } from './SiteHeader/SiteHeader'
+export { CategoryNav } from './CategoryNav/CategoryNav'
+export { TagCloud } from './TagCloud/TagCloud'
+export { ArchiveMonths } from './ArchiveMonths/ArchiveMonths'
+export { AuthorCard } from './AuthorCard/AuthorCard'
 export { Header } from './Header/Header'
 export { Link } from './Link/Link'
 export { Text } from './Text/Text'
@@ -7,5 +11,18 @@ export { Flex, Box } from './Grid'
 export { Post } from './Post/Post'
 export { PostList } from './PostList/PostList'
 export { Pagination } from './Pagination/Pagination'
+export { SearchForm } from './SearchForm/SearchForm'
+export { FormField } from './FormField/FormField'
+export { LoginForm } from './LoginForm/LoginForm'
+export { PostForm } from './PostForm/PostForm'
+export { TagEditor } from './TagEditor/TagEditor'
+export { RedirectRow } from './RedirectRow/RedirectRow'
+export { UploadItem } from './UploadItem/UploadItem'
+export { CommentList } from './CommentList/CommentList'
+export { CommentForm } from './CommentForm/CommentForm'
+export { PendingComment } from './PendingComment/PendingComment'
+export { RelatedPosts } from './RelatedPosts/RelatedPosts'
+export { WebmentionList } from './WebmentionList/WebmentionList'
 export { SiteFooter } from './SiteFooter/SiteFooter'
 export { NotFound } from './NotFound/NotFound'
+export { ServerError } from './ServerError/ServerError'
@@ -0,0 +1,11 @@
+import { expect } from 'chai'
+import { renderComponent } from 'helpers/TestHelper'
+import { Admin } from './Admin'
+
+describe('<Admin />', () => {
+  const component = renderComponent(Admin)
+
+  it('Renders login form for anonymous users', () => {
+    expect(component.find('input[type="password"]')).to.have.length(1)
+  })
+})
@@ -0,0 +1,90 @@
+import * as React from 'react'
+import * as Helmet from 'react-helmet'
+import { connect } from 'react-redux'
+
+// Actions
+import { userLogin } from 'state/user'
+
+// Components
+import { Link, LoginForm, Title } from 'components'
+import { IStore } from 'models/store'
+import { IUserCredentials } from 'models/user'
+import {
+  adminCommentsUrl,
+  adminPostUrlTemplate,
+  adminRedirectsUrl,
+  adminSettingsUrl,
+  adminTagsUrl,
+  adminUploadsUrl,
+  adminUrl,
+  adminUsersUrl,
+  hasRole,
+  permissions,
+  UserRoles
+} from 'utils'
+
+import * as styles from './Admin.css'
+
+interface IProps extends React.HTMLProps<HTMLDivElement> {
+  level: UserRoles
+  isFetching: boolean
+  hasError: boolean
+  onLogin (credentials: IUserCredentials): void
+}
+
+const mapStateToProps = ({ user }: IStore): Partial<IProps> => ({
+  level: user.isLoggedIn ? user.userData.level : UserRoles.anonymous,
+  isFetching: user.isFetching,
+  hasError: !!user.error
+})
+
+const mapDispatchToProps = (dispatch: any): Partial<IProps> => ({
+  onLogin: (credentials: IUserCredentials): void => dispatch(userLogin(credentials))
+})
+
+// Authentication happens in the browser only, so the server always renders the login form here
+const Admin = connect(mapStateToProps, mapDispatchToProps)((props: IProps): JSX.Element => {
+  const { level, isFetching, hasError, onLogin, children } = props
+  const isAdmin = hasRole(level, UserRoles.admin)
+
+  // Authors and editors only see what they may change, the services check it anyway
+  if (!hasRole(level, permissions.posts.create)) {
+    return (
+      <section>
+        <Helmet title='Вход'/>
+        <Title level={ 1 } size={ 28 } className={ styles.admin_title }>Вход</Title>
+        <LoginForm
+          isFetching={ isFetching }
+          hasError={ hasError }
+          onLogin={ onLogin }
+        />
+      </section>
+    )
+  }
+
+  return (
+    <section>
+      <nav className={ styles.admin_nav }>
+        <Link to={ adminUrl } isHome={ true } className={ styles.admin_navItem }>Записи</Link>
+        <Link to={ adminPostUrlTemplate('new') } className={ styles.admin_navItem }>Новая запись</Link>
+        { isAdmin && <Link to={ adminCommentsUrl } className={ styles.admin_navItem }>Комментарии</Link> }
+        { hasRole(level, permissions.tags.edit) && (
+          <Link to={ adminTagsUrl } className={ styles.admin_navItem }>Метки</Link>
+        ) }
+        { isAdmin && <Link to={ adminUploadsUrl } className={ styles.admin_navItem }>Файлы</Link> }
+        { isAdmin && <Link to={ adminRedirectsUrl } className={ styles.admin_navItem }>Перенаправления</Link> }
+        { hasRole(level, permissions.options.edit) && (
+          <Link to={ adminSettingsUrl } className={ styles.admin_navItem }>Настройки</Link>
+        ) }
+        { hasRole(level, permissions.users.create) && (
+          <Link to={ adminUsersUrl } className={ styles.admin_navItem }>Пользователи</Link>
+        ) }
+      </nav>
+      { children }
+    </section>
+  )
+})
+
+Admin.displayName = 'Admin'
+
+export { Admin }
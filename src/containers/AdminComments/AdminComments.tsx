@@ -0,0 +1,88 @@
+import * as React from 'react'
+import * as Helmet from 'react-helmet'
+import { connect } from 'react-redux'
+
+// Actions
+import { getAdminComments, moderateComment, removeComment } from 'state/admin'
+
+// Components
+import { PendingComment, Text } from 'components'
+import { IComment } from 'models/comments'
+import { IStore } from 'models/store'
+
+import * as styles from './AdminComments.css'
+
+interface IProps {
+  comments: IComment[]
+  isFetching: boolean
+  isSaving: boolean
+  hasError: boolean
+  onFetch (): void
+  onModerate (comment: Partial<IComment>): void
+  onRemove (_id: string): void
+}
+
+const byDate = (a: IComment, b: IComment): number =>
+  new Date(a._created).getTime() - new Date(b._created).getTime()
+
+// The queue holds comments waiting for moderation, oldest first
+const mapStateToProps = ({ admin, comments }: IStore): Partial<IProps> => ({
+  comments: Object.keys(comments.itemsById)
+    .map((_id: string): IComment => comments.itemsById[_id])
+    .filter(({ status }: IComment): boolean => status === 'pending')
+    .sort(byDate),
+  isFetching: comments.isFetching,
+  isSaving: admin.isSaving,
+  hasError: comments.error || admin.error
+})
+
+const mapDispatchToProps = (dispatch: any): Partial<IProps> => ({
+  onFetch: (): void => dispatch(getAdminComments()),
+  onModerate: (comment: Partial<IComment>): void => dispatch(moderateComment(comment)),
+  onRemove: (_id: string): void => dispatch(removeComment(_id))
+})
+
+class AdminCommentsList extends React.PureComponent<IProps, any> {
+  public componentDidMount (): void {
+    this.props.onFetch()
+  }
+
+  private renderList (): JSX.Element {
+    const { comments, isFetching, isSaving, hasError, onModerate, onRemove } = this.props
+
+    if (hasError) {
+      return <Text>Не удалось загрузить или изменить комментарии.</Text>
+    }
+
+    if (!comments.length) {
+      return <Text>{ isFetching ? 'Загрузка...' : 'Новых комментариев нет.' }</Text>
+    }
+
+    return (
+      <ul className={ styles.comments }>
+        { comments.map((comment: IComment): JSX.Element => (
+          <PendingComment
+            key={ comment._id }
+            comment={ comment }
+            disabled={ isSaving }
+            onModerate={ onModerate }
+            onRemove={ onRemove }
+          />
+        )) }
+      </ul>
+    )
+  }
+
+  public render (): JSX.Element {
+    return (
+      <div>
+        <Helmet title='Комментарии'/>
+        { this.renderList() }
+      </div>
+    )
+  }
+}
+
+const AdminComments = connect(mapStateToProps, mapDispatchToProps)(AdminCommentsList)
+
+export { AdminComments }
@@ -0,0 +1,85 @@
+import * as React from 'react'
+import * as Helmet from 'react-helmet'
+import { connect } from 'react-redux'
+import { pathOr } from 'utils/ramda'
+
+// Actions
+import { savePost } from 'state/admin'
+import { getPost } from 'state/posts'
+
+// Components
+import { PostForm } from 'components'
+import { IFieldErrors, IPostDraft } from 'models/admin'
+import { IPost } from 'models/posts'
+import { IStore } from 'models/store'
+
+interface IProps {
+  postId: string
+  item: Partial<IPost>
+  fieldErrors: IFieldErrors
+  hasError: boolean
+  isSaving: boolean
+  onFetch (postId: string): void
+  onSave (post: IPostDraft): void
+}
+
+const newPostId = 'new'
+const isNew = (postId: string): boolean => postId === newPostId
+
+const mapStateToProps = ({ admin, posts }: IStore, { params }: any): Partial<IProps> => ({
+  postId: params.postId,
+  item: isNew(params.postId) ? {} : pathOr({}, ['itemsById', params.postId], posts),
+  fieldErrors: admin.fieldErrors,
+  hasError: admin.error,
+  isSaving: admin.isSaving
+})
+
+const mapDispatchToProps = (dispatch: any): Partial<IProps> => ({
+  onFetch: (postId: string): void => dispatch(getPost(postId)),
+  onSave: (post: IPostDraft): void => dispatch(savePost(post))
+})
+
+// Drafts are fetched with the admin token, which the server never has, so the post is loaded after mount
+class AdminPostEditor extends React.PureComponent<IProps, any> {
+  public componentDidMount (): void {
+    this.fetch(this.props.postId)
+  }
+
+  public componentWillReceiveProps ({ postId }: IProps): void {
+    if (postId !== this.props.postId) {
+      this.fetch(postId)
+    }
+  }
+
+  private fetch (postId: string): void {
+    if (!isNew(postId)) {
+      this.props.onFetch(postId)
+    }
+  }
+
+  public render (): JSX.Element {
+    const { postId, item, fieldErrors, hasError, isSaving, onSave } = this.props
+    const title = isNew(postId) ? 'Новая запись' : `Редактирование: ${item.title || postId}`
+
+    if (!isNew(postId) && !item._id) {
+      return null
+    }
+
+    return (
+      <div>
+        <Helmet title={ title }/>
+        <PostForm
+          item={ item }
+          fieldErrors={ fieldErrors }
+          hasError={ hasError }
+          isSaving={ isSaving }
+          onSave={ onSave }
+        />
+      </div>
+    )
+  }
+}
+
+const AdminPost = connect(mapStateToProps, mapDispatchToProps)(AdminPostEditor)
+
+export { AdminPost }
@@ -0,0 +1,118 @@
+import * as React from 'react'
+import * as Helmet from 'react-helmet'
+import { connect } from 'react-redux'
+import { path } from 'utils/ramda'
+
+// Actions
+import { getAdminPosts } from 'state/admin'
+
+// Components
+import { Link, Text } from 'components'
+import { IPostStatus } from 'models/admin'
+import { IPost } from 'models/posts'
+import { IStore } from 'models/store'
+import { adminPostUrlTemplate, adminUrl, dateFormat } from 'utils'
+
+import * as styles from './AdminPosts.css'
+
+interface IProps {
+  status?: IPostStatus
+  posts: IPost[]
+  isFetching: boolean
+  hasError: boolean
+  onFetch (status?: IPostStatus): void
+}
+
+const statuses: Array<[IPostStatus, string]> = [
+  ['draft', 'Черновики'],
+  ['scheduled', 'Запланированные'],
+  ['publish', 'Опубликованные']
+]
+
+const statusLabels = {
+  draft: 'Черновик',
+  scheduled: 'Запланирован',
+  publish: 'Опубликован'
+}
+
+const formatDate = dateFormat('YYYY/MM/DD hh:mm')
+const statusP = path(['query', 'status'])
+const statusUrl = (status: IPostStatus): string => `${adminUrl}?status=${status}`
+
+const mapStateToProps = ({ admin, posts }: IStore, { location }: any): Partial<IProps> => ({
+  status: statusP(location),
+  posts: admin.postIds.map((_id: string): IPost => posts.itemsById[_id]).filter(Boolean),
+  isFetching: admin.isFetching,
+  hasError: admin.error
+})
+
+const mapDispatchToProps = (dispatch: any): Partial<IProps> => ({
+  onFetch: (status?: IPostStatus): void => dispatch(getAdminPosts(status))
+})
+
+const renderPost = ({ _id, _created, publishAt, status, title }: IPost): JSX.Element => (
+  <tr key={ _id }>
+    <td>
+      <Link to={ adminPostUrlTemplate(_id) }>{ title || 'Без заголовка' }</Link>
+    </td>
+    <td className={ styles.posts_status }>{ statusLabels[status] }</td>
+    <td className={ styles.posts_date }>{ formatDate(status === 'scheduled' ? publishAt : _created) }</td>
+  </tr>
+)
+
+class AdminPostsList extends React.PureComponent<IProps, any> {
+  public componentDidMount (): void {
+    this.props.onFetch(this.props.status)
+  }
+
+  public componentWillReceiveProps ({ status }: IProps): void {
+    if (status !== this.props.status) {
+      this.props.onFetch(status)
+    }
+  }
+
+  private renderFilters (): JSX.Element {
+    return (
+      <nav className={ styles.posts_filters }>
+        <Link to={ adminUrl } className={ styles.posts_filter } isHome={ true }>Все</Link>
+        { statuses.map(([status, label]: [IPostStatus, string]): JSX.Element => (
+          <Link key={ status } to={ statusUrl(status) } className={ styles.posts_filter }>{ label }</Link>
+        )) }
+      </nav>
+    )
+  }
+
+  private renderList (): JSX.Element {
+    const { posts, isFetching, hasError } = this.props
+
+    if (hasError) {
+      return <Text>Не удалось загрузить записи.</Text>
+    }
+
+    if (!posts.length) {
+      return <Text>{ isFetching ? 'Загрузка...' : 'Записей нет.' }</Text>
+    }
+
+    return (
+      <table className={ styles.posts }>
+        <tbody>
+          { posts.map(renderPost) }
+        </tbody>
+      </table>
+    )
+  }
+
+  public render (): JSX.Element {
+    return (
+      <div>
+        <Helmet title='Записи'/>
+        { this.renderFilters() }
+        { this.renderList() }
+      </div>
+    )
+  }
+}
+
+const AdminPosts = connect(mapStateToProps, mapDispatchToProps)(AdminPostsList)
+
+export { AdminPosts }
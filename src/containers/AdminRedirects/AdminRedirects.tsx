@@ -0,0 +1,170 @@
+import * as React from 'react'
+import * as Helmet from 'react-helmet'
+import { connect } from 'react-redux'
+
+// Actions
+import { createRedirect, getAdminRedirects, removeRedirect } from 'state/admin'
+
+// Components
+import { FormField, RedirectRow, Text } from 'components'
+import { IFieldErrors } from 'models/admin'
+import { IFieldElement } from 'models/appication'
+import { IRedirect, IRedirectStatus } from 'models/redirects'
+import { IStore } from 'models/store'
+
+import * as styles from './AdminRedirects.css'
+
+interface IProps {
+  redirects: IRedirect[]
+  fieldErrors: IFieldErrors
+  hasError: boolean
+  isSaving: boolean
+  onFetch (): void
+  onCreate (redirect: Partial<IRedirect>): void
+  onRemove (_id: string): void
+}
+
+interface IState {
+  source: string
+  target: string
+  status: string
+}
+
+const bySource = (a: IRedirect, b: IRedirect): number => a.source.localeCompare(b.source)
+
+const mapStateToProps = ({ admin, redirects }: IStore): Partial<IProps> => ({
+  redirects: Object.keys(redirects.itemsById)
+    .map((_id: string): IRedirect => redirects.itemsById[_id])
+    .sort(bySource),
+  fieldErrors: admin.fieldErrors,
+  hasError: redirects.error || admin.error,
+  isSaving: admin.isSaving
+})
+
+const mapDispatchToProps = (dispatch: any): Partial<IProps> => ({
+  onFetch: (): void => dispatch(getAdminRedirects()),
+  onCreate: (redirect: Partial<IRedirect>): void => dispatch(createRedirect(redirect)),
+  onRemove: (_id: string): void => dispatch(removeRedirect(_id))
+})
+
+// Sources and targets are paths like `/blog/:tagId/:postId/`, placeholders of the source are filled in the target
+class AdminRedirectsList extends React.PureComponent<IProps, IState> {
+  constructor () {
+    super()
+
+    this.state = {
+      source: '',
+      target: '',
+      status: '301'
+    }
+
+    this.onChange = this.onChange.bind(this)
+    this.onCreate = this.onCreate.bind(this)
+  }
+
+  public componentDidMount (): void {
+    this.props.onFetch()
+  }
+
+  private onChange ({ currentTarget: { name, value } }: React.ChangeEvent<IFieldElement>): void {
+    const update: Partial<IState> = { [name as keyof IState]: value }
+
+    this.setState(update as Pick<IState, keyof IState>)
+  }
+
+  private onCreate (event: React.FormEvent<HTMLFormElement>): void {
+    const { source, target, status } = this.state
+    const redirect: Partial<IRedirect> = {
+      source,
+      status: Number(status) as IRedirectStatus
+    }
+
+    event.preventDefault()
+
+    if (target) {
+      redirect.target = target
+    }
+
+    this.props.onCreate(redirect)
+    this.setState({ source: '', target: '' })
+  }
+
+  private renderForm (): JSX.Element {
+    const { fieldErrors, isSaving } = this.props
+    const { source, target, status } = this.state
+
+    return (
+      <form className={ styles.redirects_form } onSubmit={ this.onCreate }>
+        <FormField label='Откуда' error={ fieldErrors.source }>
+          <input
+            type='text'
+            name='source'
+            value={ source }
+            placeholder='/blog/:tagId/:postId/'
+            onChange={ this.onChange }
+            required={ true }
+          />
+        </FormField>
+        <FormField label='Куда' error={ fieldErrors.target }>
+          <input
+            type='text'
+            name='target'
+            value={ target }
+            placeholder='/post/:postId/'
+            onChange={ this.onChange }
+            required={ status !== '410' }
+          />
+        </FormField>
+        <FormField label='Код' error={ fieldErrors.status }>
+          <select
+            name='status'
+            value={ status }
+            onChange={ this.onChange }
+          >
+            <option value='301'>301, переехало навсегда</option>
+            <option value='302'>302, временно</option>
+            <option value='410'>410, удалено</option>
+          </select>
+        </FormField>
+        <button className={ styles.redirects_button } type='submit' disabled={ isSaving }>Добавить</button>
+      </form>
+    )
+  }
+
+  public render (): JSX.Element {
+    const { redirects, hasError, isSaving, onRemove } = this.props
+
+    return (
+      <div>
+        <Helmet title='Перенаправления'/>
+        { this.renderForm() }
+        { hasError && <Text className={ styles.redirects_error }>Не удалось загрузить или сохранить изменения.</Text> }
+        <table className={ styles.redirects }>
+          <thead>
+            <tr>
+              <th>Откуда</th>
+              <th>Куда</th>
+              <th>Код</th>
+              <th>Переходы</th>
+              <th/>
+            </tr>
+          </thead>
+          <tbody>
+            { redirects.map((redirect: IRedirect): JSX.Element => (
+              <RedirectRow
+                key={ redirect._id }
+                redirect={ redirect }
+                disabled={ isSaving }
+                onRemove={ onRemove }
+              />
+            )) }
+          </tbody>
+        </table>
+      </div>
+    )
+  }
+}
+
+const AdminRedirects = connect(mapStateToProps, mapDispatchToProps)(AdminRedirectsList)
+
+export { AdminRedirects }
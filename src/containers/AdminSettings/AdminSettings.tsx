@@ -0,0 +1,124 @@
+import * as React from 'react'
+import * as Helmet from 'react-helmet'
+import { connect } from 'react-redux'
+
+// Actions
+import { saveSettings } from 'state/admin'
+
+// Components
+import { FormField, Text } from 'components'
+import { IFieldErrors } from 'models/admin'
+import { IFieldElement } from 'models/appication'
+import { ISettings } from 'models/settings'
+import { IStore } from 'models/store'
+import { pick } from 'utils/ramda'
+
+import * as styles from './AdminSettings.css'
+
+interface IProps {
+  settings: ISettings
+  fieldErrors: IFieldErrors
+  hasError: boolean
+  isSaving: boolean
+  onSave (settings: ISettings): void
+}
+
+interface IState {
+  title: string
+  titleTemplate: string
+  description: string
+  fontLinks: string
+  excerptLength: string
+}
+
+const pickSettings = pick(['title', 'titleTemplate', 'description', 'fontLinks', 'excerptLength'])
+
+const mapStateToProps = ({ admin, settings }: IStore): Partial<IProps> => ({
+  settings: pickSettings(settings),
+  fieldErrors: admin.fieldErrors,
+  hasError: admin.error,
+  isSaving: admin.isSaving
+})
+
+const mapDispatchToProps = (dispatch: any): Partial<IProps> => ({
+  onSave: (settings: ISettings): void => dispatch(saveSettings(settings))
+})
+
+// Font links are edited one per line
+const stateFromSettings = ({ fontLinks, excerptLength, ...settings }: ISettings): IState => ({
+  ...settings,
+  fontLinks: fontLinks.join('\n'),
+  excerptLength: `${excerptLength}`
+})
+
+const settingsFromState = ({ fontLinks, excerptLength, ...state }: IState): ISettings => ({
+  ...state,
+  fontLinks: fontLinks.split('\n').map((link: string): string => link.trim()).filter(Boolean),
+  excerptLength: parseInt(excerptLength, 10)
+})
+
+class AdminSettingsForm extends React.PureComponent<IProps, IState> {
+  constructor (props: IProps) {
+    super(props)
+
+    this.state = stateFromSettings(props.settings)
+
+    this.onChange = this.onChange.bind(this)
+    this.onSubmit = this.onSubmit.bind(this)
+  }
+
+  private onChange ({ currentTarget: { name, value } }: React.ChangeEvent<IFieldElement>): void {
+    const update: Partial<IState> = { [name as keyof IState]: value }
+
+    this.setState(update as Pick<IState, keyof IState>)
+  }
+
+  private onSubmit (event: React.FormEvent<HTMLFormElement>): void {
+    event.preventDefault()
+    this.props.onSave(settingsFromState(this.state))
+  }
+
+  public render (): JSX.Element {
+    const { hasError, isSaving } = this.props
+    const { title, titleTemplate, description, fontLinks, excerptLength } = this.state
+
+    return (
+      <form className={ styles.settings } onSubmit={ this.onSubmit }>
+        <Helmet title='Настройки'/>
+        { hasError && <Text className={ styles.settings_error }>Не удалось сохранить настройки.</Text> }
+        <FormField label='Название сайта'>
+          <input type='text' name='title' value={ title } onChange={ this.onChange } required={ true }/>
+        </FormField>
+        <FormField label='Шаблон заголовка страницы (%s — заголовок)'>
+          <input type='text' name='titleTemplate' value={ titleTemplate } onChange={ this.onChange }/>
+        </FormField>
+        <FormField label='Описание'>
+          <input type='text' name='description' value={ description } onChange={ this.onChange }/>
+        </FormField>
+        <FormField label='Шрифты (по ссылке на строку)'>
+          <textarea
+            className={ styles.settings_links }
+            name='fontLinks'
+            value={ fontLinks }
+            onChange={ this.onChange }
+          />
+        </FormField>
+        <FormField label='Длина анонса'>
+          <input
+            type='number'
+            name='excerptLength'
+            min={ 1 }
+            value={ excerptLength }
+            onChange={ this.onChange }
+            required={ true }
+          />
+        </FormField>
+        <button className={ styles.settings_button } type='submit' disabled={ isSaving }>Сохранить</button>
+      </form>
+    )
+  }
+}
+
+const AdminSettings = connect(mapStateToProps, mapDispatchToProps)(AdminSettingsForm)
+
+export { AdminSettings }
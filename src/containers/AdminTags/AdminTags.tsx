@@ -0,0 +1,140 @@
+import * as React from 'react'
+import * as Helmet from 'react-helmet'
+import { connect } from 'react-redux'
+
+// Actions
+import { createTag, getAdminTags, mergeTags, removeTag, renameTag } from 'state/admin'
+
+// Components
+import { FormField, TagEditor, Text } from 'components'
+import { IFieldErrors } from 'models/admin'
+import { IFieldElement } from 'models/appication'
+import { IStore } from 'models/store'
+import { ITag, ITagsMerge } from 'models/tags'
+
+import * as styles from './AdminTags.css'
+
+interface IProps {
+  tags: ITag[]
+  fieldErrors: IFieldErrors
+  hasError: boolean
+  isSaving: boolean
+  onFetch (): void
+  onCreate (tag: Partial<ITag>): void
+  onRename (tag: Partial<ITag>): void
+  onMerge (merge: ITagsMerge): void
+  onRemove (_id: string): void
+}
+
+interface IState {
+  title: string
+  taxonomy: ITag['taxonomy']
+}
+
+const byTitle = (a: ITag, b: ITag): number => a.title.localeCompare(b.title)
+
+const mapStateToProps = ({ admin, tags }: IStore): Partial<IProps> => ({
+  tags: Object.keys(tags.itemsById).map((_id: string): ITag => tags.itemsById[_id]).sort(byTitle),
+  fieldErrors: admin.fieldErrors,
+  hasError: admin.error,
+  isSaving: admin.isSaving
+})
+
+const mapDispatchToProps = (dispatch: any): Partial<IProps> => ({
+  onFetch: (): void => dispatch(getAdminTags()),
+  onCreate: (tag: Partial<ITag>): void => dispatch(createTag(tag)),
+  onRename: (tag: Partial<ITag>): void => dispatch(renameTag(tag)),
+  onMerge: (merge: ITagsMerge): void => dispatch(mergeTags(merge)),
+  onRemove: (_id: string): void => dispatch(removeTag(_id))
+})
+
+class AdminTagsList extends React.PureComponent<IProps, IState> {
+  constructor () {
+    super()
+
+    this.state = {
+      title: '',
+      taxonomy: 'tags'
+    }
+
+    this.onChange = this.onChange.bind(this)
+    this.onCreate = this.onCreate.bind(this)
+  }
+
+  public componentDidMount (): void {
+    this.props.onFetch()
+  }
+
+  private onChange ({ currentTarget: { name, value } }: React.ChangeEvent<IFieldElement>): void {
+    const update: Partial<IState> = { [name as keyof IState]: value }
+
+    this.setState(update as Pick<IState, keyof IState>)
+  }
+
+  private onCreate (event: React.FormEvent<HTMLFormElement>): void {
+    event.preventDefault()
+    this.props.onCreate(this.state)
+    this.setState({ title: '' })
+  }
+
+  private renderForm (): JSX.Element {
+    const { fieldErrors, isSaving } = this.props
+    const { title, taxonomy } = this.state
+
+    return (
+      <form className={ styles.tags_form } onSubmit={ this.onCreate }>
+        <FormField label='Название' error={ fieldErrors.title || fieldErrors._id }>
+          <input
+            type='text'
+            name='title'
+            value={ title }
+            onChange={ this.onChange }
+            required={ true }
+          />
+        </FormField>
+        <FormField label='Тип' error={ fieldErrors.taxonomy }>
+          <select
+            name='taxonomy'
+            value={ taxonomy }
+            onChange={ this.onChange }
+          >
+            <option value='tags'>Метка</option>
+            <option value='categories'>Рубрика</option>
+          </select>
+        </FormField>
+        <button className={ styles.tags_button } type='submit' disabled={ isSaving }>Добавить</button>
+      </form>
+    )
+  }
+
+  public render (): JSX.Element {
+    const { tags, hasError, isSaving, onRename, onMerge, onRemove } = this.props
+
+    return (
+      <div>
+        <Helmet title='Метки'/>
+        { this.renderForm() }
+        { hasError && <Text className={ styles.tags_error }>Не удалось сохранить изменения.</Text> }
+        <table className={ styles.tags }>
+          <tbody>
+            { tags.map((tag: ITag): JSX.Element => (
+              <TagEditor
+                key={ tag._id }
+                tag={ tag }
+                tags={ tags }
+                disabled={ isSaving }
+                onRename={ onRename }
+                onMerge={ onMerge }
+                onRemove={ onRemove }
+              />
+            )) }
+          </tbody>
+        </table>
+      </div>
+    )
+  }
+}
+
+const AdminTags = connect(mapStateToProps, mapDispatchToProps)(AdminTagsList)
+
+export { AdminTags }
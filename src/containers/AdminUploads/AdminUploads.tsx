@@ -0,0 +1,138 @@
+import * as React from 'react'
+import * as Helmet from 'react-helmet'
+import { connect } from 'react-redux'
+
+// Actions
+import { getAdminUploads, removeUpload, uploadFile } from 'state/admin'
+
+// Components
+import { FormField, Text, UploadItem } from 'components'
+import { IStore } from 'models/store'
+import { IUpload, IUploadRequest } from 'models/uploads'
+
+import * as styles from './AdminUploads.css'
+
+interface IProps {
+  uploads: IUpload[]
+  hasError: boolean
+  isSaving: boolean
+  onFetch (): void
+  onUpload (request: IUploadRequest): void
+  onRemove (_id: string): void
+}
+
+interface IState {
+  file: File
+  alt: string
+}
+
+const byNewest = (a: IUpload, b: IUpload): number => b._created.localeCompare(a._created)
+
+const mapStateToProps = ({ admin, uploads }: IStore): Partial<IProps> => ({
+  uploads: Object.keys(uploads.itemsById)
+    .map((_id: string): IUpload => uploads.itemsById[_id])
+    .sort(byNewest),
+  hasError: uploads.error || admin.error,
+  isSaving: admin.isSaving
+})
+
+const mapDispatchToProps = (dispatch: any): Partial<IProps> => ({
+  onFetch: (): void => dispatch(getAdminUploads()),
+  onUpload: (request: IUploadRequest): void => dispatch(uploadFile(request)),
+  onRemove: (_id: string): void => dispatch(removeUpload(_id))
+})
+
+class AdminUploadsList extends React.PureComponent<IProps, IState> {
+  constructor () {
+    super()
+
+    this.state = {
+      file: null,
+      alt: ''
+    }
+
+    this.onFileChange = this.onFileChange.bind(this)
+    this.onAltChange = this.onAltChange.bind(this)
+    this.onUpload = this.onUpload.bind(this)
+  }
+
+  public componentDidMount (): void {
+    this.props.onFetch()
+  }
+
+  private onFileChange ({ currentTarget: { files } }: React.FormEvent<HTMLInputElement>): void {
+    this.setState({ file: files[0] || null })
+  }
+
+  private onAltChange ({ currentTarget: { value } }: React.FormEvent<HTMLInputElement>): void {
+    this.setState({ alt: value })
+  }
+
+  private onUpload (event: React.FormEvent<HTMLFormElement>): void {
+    const { file, alt } = this.state
+
+    event.preventDefault()
+
+    if (file) {
+      this.props.onUpload({ file, alt })
+    }
+
+    // The file input can only be cleared by resetting its form
+    event.currentTarget.reset()
+    this.setState({ file: null, alt: '' })
+  }
+
+  private renderForm (): JSX.Element {
+    const { isSaving } = this.props
+    const { alt } = this.state
+
+    return (
+      <form className={ styles.uploads_form } onSubmit={ this.onUpload }>
+        <FormField label='Картинка'>
+          <input
+            type='file'
+            name='file'
+            accept='image/gif,image/jpeg,image/png,image/webp'
+            onChange={ this.onFileChange }
+            required={ true }
+          />
+        </FormField>
+        <FormField label='Описание'>
+          <input
+            type='text'
+            name='alt'
+            value={ alt }
+            onChange={ this.onAltChange }
+          />
+        </FormField>
+        <button className={ styles.uploads_button } type='submit' disabled={ isSaving }>Загрузить</button>
+      </form>
+    )
+  }
+
+  public render (): JSX.Element {
+    const { uploads, hasError, isSaving, onRemove } = this.props
+
+    return (
+      <div>
+        <Helmet title='Файлы'/>
+        { this.renderForm() }
+        { hasError && <Text className={ styles.uploads_error }>Не удалось загрузить или сохранить изменения.</Text> }
+        <ul className={ styles.uploads }>
+          { uploads.map((upload: IUpload): JSX.Element => (
+            <UploadItem
+              key={ upload._id }
+              upload={ upload }
+              disabled={ isSaving }
+              onRemove={ onRemove }
+            />
+          )) }
+        </ul>
+      </div>
+    )
+  }
+}
+
+const AdminUploads = connect(mapStateToProps, mapDispatchToProps)(AdminUploadsList)
+
+export { AdminUploads }
@@ -0,0 +1,116 @@
+import * as React from 'react'
+import * as Helmet from 'react-helmet'
+import { connect } from 'react-redux'
+
+// Actions
+import { inviteUser } from 'state/admin'
+
+// Components
+import { FormField, Text } from 'components'
+import { IFieldErrors } from 'models/admin'
+import { IFieldElement } from 'models/appication'
+import { IStore } from 'models/store'
+import { IUserInvite } from 'models/user'
+import { UserRoles } from 'utils'
+
+import * as styles from './AdminUsers.css'
+
+interface IProps {
+  fieldErrors: IFieldErrors
+  hasError: boolean
+  isSaving: boolean
+  sentTo?: string
+  onInvite (invite: IUserInvite): void
+}
+
+interface IState {
+  email: string
+  level: string
+}
+
+const roles: Array<[UserRoles, string]> = [
+  [UserRoles.author, 'Автор, пишет и правит свои записи'],
+  [UserRoles.editor, 'Редактор, правит все записи, страницы и метки'],
+  [UserRoles.admin, 'Администратор, может всё']
+]
+
+const mapStateToProps = ({ admin }: IStore): Partial<IProps> => ({
+  fieldErrors: admin.fieldErrors,
+  hasError: admin.error,
+  isSaving: admin.isSaving,
+  sentTo: admin.sentTo
+})
+
+const mapDispatchToProps = (dispatch: any): Partial<IProps> => ({
+  onInvite: (invite: IUserInvite): void => dispatch(inviteUser(invite))
+})
+
+// New users come by invites only, the link in the email lets them pick a password
+class AdminUsersForm extends React.PureComponent<IProps, IState> {
+  constructor () {
+    super()
+
+    this.state = {
+      email: '',
+      level: String(UserRoles.author)
+    }
+
+    this.onChange = this.onChange.bind(this)
+    this.onInvite = this.onInvite.bind(this)
+  }
+
+  private onChange ({ currentTarget: { name, value } }: React.ChangeEvent<IFieldElement>): void {
+    const update: Partial<IState> = { [name as keyof IState]: value }
+
+    this.setState(update as Pick<IState, keyof IState>)
+  }
+
+  private onInvite (event: React.FormEvent<HTMLFormElement>): void {
+    const { email, level } = this.state
+
+    event.preventDefault()
+
+    this.props.onInvite({ email, level: Number(level) })
+    this.setState({ email: '' })
+  }
+
+  public render (): JSX.Element {
+    const { fieldErrors, hasError, isSaving, sentTo } = this.props
+    const { email, level } = this.state
+
+    return (
+      <div>
+        <Helmet title='Пользователи'/>
+        { sentTo && <Text className={ styles.users_notice }>Приглашение отправлено на { sentTo }.</Text> }
+        { hasError && <Text className={ styles.users_error }>Не удалось отправить приглашение.</Text> }
+        <form className={ styles.users_form } onSubmit={ this.onInvite }>
+          <FormField label='Email' error={ fieldErrors.email }>
+            <input
+              type='email'
+              name='email'
+              value={ email }
+              onChange={ this.onChange }
+              required={ true }
+            />
+          </FormField>
+          <FormField label='Роль' error={ fieldErrors.level }>
+            <select
+              name='level'
+              value={ level }
+              onChange={ this.onChange }
+            >
+              { roles.map(([role, title]: [UserRoles, string]): JSX.Element => (
+                <option key={ role } value={ role }>{ title }</option>
+              )) }
+            </select>
+          </FormField>
+          <button className={ styles.users_button } type='submit' disabled={ isSaving }>Пригласить</button>
+        </form>
+      </div>
+    )
+  }
+}
+
+const AdminUsers = connect(mapStateToProps, mapDispatchToProps)(AdminUsersForm)
+
+export { AdminUsers }
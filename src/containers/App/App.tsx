@@ -3,13 +3,20 @@ import * as Helmet from 'react-helmet'
 import { asyncConnect } from 'redux-connect'
 import { path } from 'utils/ramda'
 
-import { SiteHeader, SiteFooter } from 'components'
+import { ArchiveMonths, SiteHeader, SiteFooter, TagCloud } from 'components'
+import { getArchiveMonths } from 'state/archiveMonths'
+import { getAuthors } from 'state/authors'
 import { runGlobalActions } from 'state/globalActions'
 import { getHeadlines, headlinesSet } from 'state/headlines'
+import { getSettings } from 'state/settings'
 import { getTags } from 'state/tags'
+import { canonicalUrl } from 'utils'
 
 // Models
-import { IApplication } from 'models/appication'
+import { IApplication, IHeadLink, IHeadMeta, ILocation } from 'models/appication'
+import { IArchiveMonth } from 'models/posts'
+import { ISettings } from 'models/settings'
+import { ITag } from 'models/tags'
 import { IConnectArguments, IStore } from 'models/store'
 
 // Styles
@@ -18,17 +25,26 @@ import * as styles from './App.css'
 interface IProps extends React.HTMLProps<HTMLDivElement> {
   headline: string
   application: IApplication
+  settings: ISettings
   isMainPage: boolean
+  tags: ITag[]
+  archiveMonths: IArchiveMonth[]
 }
 
 const headlinePath = path(['current', 'content'])
 const mapState = ({
                     headlines,
-                    application
+                    application,
+                    settings,
+                    tags,
+                    archiveMonths
                   }: IStore): IProps => ({
                     headline: headlinePath(headlines),
                     application,
-                    isMainPage: application.location.pathname === '/'
+                    settings,
+                    isMainPage: application.location.pathname === '/',
+                    tags: Object.keys(tags.itemsById).map((_id: string): ITag => tags.itemsById[_id]),
+                    archiveMonths
                   })
 
 const aConnect = asyncConnect(
@@ -37,7 +53,10 @@ const aConnect = asyncConnect(
       dispatch,
       [
         getHeadlines,
-        getTags
+        getSettings,
+        getTags,
+        getAuthors,
+        getArchiveMonths
       ],
       [
         headlinesSet
@@ -48,34 +67,62 @@ const aConnect = asyncConnect(
   mapState
 )
 
+// Empty categories would lead to empty archives
+const isCategory = ({ taxonomy, _count }: ITag): boolean => taxonomy === 'categories' && _count > 0
+const byTitle = (a: ITag, b: ITag): number => a.title.localeCompare(b.title)
+
+const headMeta = (meta: IHeadMeta[], { description }: ISettings): IHeadMeta[] => [
+  ...meta,
+  { name: 'description', content: description }
+]
+
+const headLink = (link: IHeadLink[], location: ILocation, settings: ISettings): IHeadLink[] => [
+  { rel: 'canonical', href: canonicalUrl(location) },
+  ...link,
+  ...settings.fontLinks.map((href: string): IHeadLink => ({ type: 'text/css', href, rel: 'stylesheet' }))
+]
+
 const App = aConnect((props: IProps): JSX.Element => {
   const {
     headline,
     children,
     isMainPage,
+    settings,
+    tags,
+    archiveMonths,
     application: {
-      title,
-      titleTemplate,
       head: {
         meta,
         link
-      }
+      },
+      location
     }
   } = props
 
   return (
     <div className={ styles.appContainer }>
       <Helmet
-        title={ title }
-        titleTemplate={ titleTemplate }
-        meta={ meta }
-        link={ link }
+        title={ settings.title }
+        titleTemplate={ settings.titleTemplate }
+        meta={ headMeta(meta, settings) }
+        link={ headLink(link, location, settings) }
       />
       <SiteHeader
         isMainPage={ isMainPage }
         headline={ headline }
+        siteTitle={ settings.title }
+        categories={ tags.filter(isCategory).sort(byTitle) }
+        pathname={ location.pathname }
       />
       { children }
+      <TagCloud
+        tags={ tags }
+        pathname={ location.pathname }
+      />
+      <ArchiveMonths
+        months={ archiveMonths }
+        pathname={ location.pathname }
+      />
       <SiteFooter />
     </div>
   )
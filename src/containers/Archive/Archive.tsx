@@ -1,4 +1,5 @@
 import * as React from 'react'
+import * as Helmet from 'react-helmet'
 import { asyncConnect } from 'redux-connect'
 import { equals, path, pathOr } from 'utils/ramda'
 
@@ -6,16 +7,19 @@ import { equals, path, pathOr } from 'utils/ramda'
 import { getPosts } from 'state/posts'
 
 // Components
-import { PostList, Pagination } from 'components'
-import { IQuery } from 'models/crud'
+import { AuthorCard, PostList, Pagination } from 'components'
+import { IHeadLink } from 'models/appication'
 import { IConnectArguments, IStore } from 'models/store'
-import { paginatedTemplate } from 'utils'
+import { IAuthor } from 'models/user'
+import { absoluteUrl, archiveQuery, paginatedTemplate, periodTitle } from 'utils'
 
 interface IProps {
   itemIds: string[]
   totalPages: number
   currentPage: number
   basePath: string
+  title?: string
+  author?: IAuthor
 }
 
 const basepathP = path(['location', 'basepath'])
@@ -25,35 +29,32 @@ const pageNumberP = pathOr(1, ['params', 'pageNumber'])
   [{
     promise: ({ store, params }: IConnectArguments): Promise<void> => {
       const { dispatch, getState } = store
-      const { pageNumber, tagId } = params
       const { application } = getState()
+      // Every tag and period has its own base path, so its pages are kept apart
       const pagination = {
-        pageNumber: pageNumber || 1,
+        pageNumber: params.pageNumber || 1,
         key: basepathP(application)
       }
-      const query: IQuery = {}
-
-      if (tagId) {
-        query.tags = {
-          $elemMatch: tagId
-        }
-      }
 
       return dispatch(getPosts({
-        query,
+        query: archiveQuery(params),
         pagination
       }))
     }
   }],
-  ({ pagination, application }: IStore, { router }: any) => {
+  ({ pagination, application, authors }: IStore, { router }: any) => {
     const basePath = basepathP(application)
     const pageNumber = pageNumberP(router)
+    const { year, month, authorId } = router.params
+    const author: IAuthor = authorId && authors.itemsById[authorId]
 
     return {
       itemIds: path([basePath, pageNumber], pagination) || [],
       totalPages: path([basePath, 'totalPages'], pagination),
-      currentPage: pageNumber,
-      basePath
+      currentPage: Number(pageNumber),
+      basePath,
+      title: year ? periodTitle(year, month) : author && author.name,
+      author
     }
   }
 )
@@ -76,15 +77,34 @@ class Archive extends React.PureComponent<IProps, any> {
     return paginatedTemplate(pageNumber)(basePath)
   }
 
+  private pageLinks (): IHeadLink[] {
+    const { totalPages, currentPage } = this.props
+    const link: IHeadLink[] = []
+
+    if (currentPage > 1) {
+      link.push({ rel: 'prev', href: absoluteUrl(this.linkBuilder(currentPage - 1)) })
+    }
+
+    if (currentPage < totalPages) {
+      link.push({ rel: 'next', href: absoluteUrl(this.linkBuilder(currentPage + 1)) })
+    }
+
+    return link
+  }
+
   public render (): JSX.Element {
     const {
       itemIds,
       totalPages,
-      currentPage
+      currentPage,
+      title,
+      author
     } = this.props
 
     return (
       <div>
+        <Helmet title={ title } link={ this.pageLinks() }/>
+        { author && <AuthorCard author={ author }/> }
         <section>
           <PostList
             itemIds={ itemIds }
@@ -0,0 +1,115 @@
+import * as React from 'react'
+import { connect } from 'react-redux'
+
+// Actions
+import { submitComment } from 'state/comments'
+
+// Components
+import { CommentForm, CommentList, Title } from 'components'
+import { commentTree } from 'utils'
+
+// Models
+import { IFieldErrors } from 'models/admin'
+import { IComment, ICommentDraft, ICommentFields, ICommentNode } from 'models/comments'
+import { IStore } from 'models/store'
+
+import * as styles from './Comments.css'
+
+interface IOwnProps {
+  postId: string
+}
+
+interface IProps extends IOwnProps {
+  comments: ICommentNode[]
+  count: number
+  fieldErrors: IFieldErrors
+  hasError: boolean
+  isSubmitting: boolean
+  isSubmitted: boolean
+  onSubmit (draft: ICommentDraft): void
+}
+
+interface IState {
+  replyTo?: IComment
+}
+
+// Admins get pending comments too, the list shows approved ones only
+const mapStateToProps = ({ comments }: IStore, { postId }: IOwnProps): Partial<IProps> => {
+  const items = Object.keys(comments.itemsById)
+    .map((_id: string): IComment => comments.itemsById[_id])
+    .filter((comment: IComment): boolean => comment.postId === postId && comment.status === 'approved')
+
+  return {
+    comments: commentTree(items),
+    count: items.length,
+    fieldErrors: comments.fieldErrors,
+    hasError: comments.error,
+    isSubmitting: comments.isSubmitting,
+    isSubmitted: comments.isSubmitted
+  }
+}
+
+const mapDispatchToProps = (dispatch: any): Partial<IProps> => ({
+  onSubmit: (draft: ICommentDraft): void => dispatch(submitComment(draft))
+})
+
+class CommentsSection extends React.PureComponent<IProps, IState> {
+  constructor () {
+    super()
+
+    this.state = {}
+
+    this.onReply = this.onReply.bind(this)
+    this.onCancelReply = this.onCancelReply.bind(this)
+    this.onSubmit = this.onSubmit.bind(this)
+  }
+
+  public componentWillReceiveProps ({ isSubmitted }: IProps): void {
+    if (isSubmitted && !this.props.isSubmitted) {
+      this.setState({ replyTo: undefined })
+    }
+  }
+
+  private onReply (replyTo: IComment): void {
+    this.setState({ replyTo })
+  }
+
+  private onCancelReply (): void {
+    this.setState({ replyTo: undefined })
+  }
+
+  private onSubmit (fields: ICommentFields): void {
+    const draft: ICommentDraft = { ...fields, postId: this.props.postId }
+
+    this.props.onSubmit(draft)
+  }
+
+  public render (): JSX.Element {
+    const { comments, count, fieldErrors, hasError, isSubmitting, isSubmitted } = this.props
+
+    return (
+      <section className={ styles.comments }>
+        <Title level={ 2 } size={ 20 }>
+          { count ? `Комментарии: ${count}` : 'Комментариев пока нет' }
+        </Title>
+        <CommentList
+          comments={ comments }
+          onReply={ this.onReply }
+        />
+        <CommentForm
+          replyTo={ this.state.replyTo }
+          fieldErrors={ fieldErrors }
+          hasError={ hasError }
+          isSubmitting={ isSubmitting }
+          isSubmitted={ isSubmitted }
+          onSubmit={ this.onSubmit }
+          onCancelReply={ this.onCancelReply }
+        />
+      </section>
+    )
+  }
+}
+
+const Comments = connect(mapStateToProps, mapDispatchToProps)(CommentsSection)
+
+export { Comments }
@@ -0,0 +1,138 @@
+import * as React from 'react'
+import * as Helmet from 'react-helmet'
+import { connect } from 'react-redux'
+import { path } from 'utils/ramda'
+
+// Actions
+import { requestPasswordReset, resetPassword } from 'state/admin'
+
+// Components
+import { FormField, Text, Title } from 'components'
+import { IFieldErrors } from 'models/admin'
+import { IFieldElement } from 'models/appication'
+import { IStore } from 'models/store'
+import { IPasswordReset, IPasswordResetRequest, IRegistration } from 'models/user'
+
+import * as styles from './PasswordReset.css'
+
+interface IProps {
+  token?: string
+  fieldErrors: IFieldErrors
+  hasError: boolean
+  isSaving: boolean
+  sentTo?: string
+  onRequest (request: IPasswordResetRequest): void
+  onReset (reset: IPasswordReset & Pick<IRegistration, 'token'>): void
+}
+
+interface IState {
+  email: string
+  password: string
+}
+
+const tokenP = path(['query', 'token'])
+
+const mapStateToProps = ({ admin }: IStore, { location }: any): Partial<IProps> => ({
+  token: tokenP(location),
+  fieldErrors: admin.fieldErrors,
+  hasError: admin.error,
+  isSaving: admin.isSaving,
+  sentTo: admin.sentTo
+})
+
+const mapDispatchToProps = (dispatch: any): Partial<IProps> => ({
+  onRequest: (request: IPasswordResetRequest): void => dispatch(requestPasswordReset(request)),
+  onReset: (reset: IPasswordReset & Pick<IRegistration, 'token'>): void => dispatch(resetPassword(reset))
+})
+
+// Asks for the email first, the link from the email comes back here with a token to set the new password
+class PasswordResetForm extends React.PureComponent<IProps, IState> {
+  constructor () {
+    super()
+
+    this.state = {
+      email: '',
+      password: ''
+    }
+
+    this.onChange = this.onChange.bind(this)
+    this.onSubmit = this.onSubmit.bind(this)
+  }
+
+  private onChange ({ currentTarget: { name, value } }: React.ChangeEvent<IFieldElement>): void {
+    const update: Partial<IState> = { [name as keyof IState]: value }
+
+    this.setState(update as Pick<IState, keyof IState>)
+  }
+
+  private onSubmit (event: React.FormEvent<HTMLFormElement>): void {
+    const { token, onRequest, onReset } = this.props
+    const { email, password } = this.state
+
+    event.preventDefault()
+
+    if (token) {
+      onReset({ token, password })
+    } else {
+      onRequest({ email })
+    }
+  }
+
+  private renderField (): JSX.Element {
+    const { token, fieldErrors } = this.props
+    const { email, password } = this.state
+
+    if (token) {
+      return (
+        <FormField label='Новый пароль' error={ fieldErrors.password }>
+          <input
+            type='password'
+            name='password'
+            value={ password }
+            onChange={ this.onChange }
+            required={ true }
+          />
+        </FormField>
+      )
+    }
+
+    return (
+      <FormField label='Email' error={ fieldErrors.email }>
+        <input
+          type='email'
+          name='email'
+          value={ email }
+          onChange={ this.onChange }
+          required={ true }
+        />
+      </FormField>
+    )
+  }
+
+  public render (): JSX.Element {
+    const { fieldErrors, hasError, isSaving, sentTo } = this.props
+
+    return (
+      <section>
+        <Helmet title='Восстановление пароля'/>
+        <Title level={ 1 } size={ 28 } className={ styles.reset_title }>Восстановление пароля</Title>
+        <form className={ styles.reset } onSubmit={ this.onSubmit }>
+          { sentTo && (
+            <Text className={ styles.reset_notice }>
+              Если адрес { sentTo } зарегистрирован, на него отправлено письмо со ссылкой.
+            </Text>
+          ) }
+          { hasError && !Object.keys(fieldErrors).length && (
+            <Text className={ styles.reset_error }>Не удалось сменить пароль, возможно, ссылка устарела.</Text>
+          ) }
+          { this.renderField() }
+          <button className={ styles.reset_button } type='submit' disabled={ isSaving }>Продолжить</button>
+        </form>
+      </section>
+    )
+  }
+}
+
+const PasswordReset = connect(mapStateToProps, mapDispatchToProps)(PasswordResetForm)
+
+export { PasswordReset }
@@ -0,0 +1,117 @@
+import * as React from 'react'
+import * as Helmet from 'react-helmet'
+import { connect } from 'react-redux'
+import { path } from 'utils/ramda'
+
+// Actions
+import { registerUser } from 'state/admin'
+
+// Components
+import { FormField, Text, Title } from 'components'
+import { IFieldErrors } from 'models/admin'
+import { IFieldElement } from 'models/appication'
+import { IStore } from 'models/store'
+import { IRegistration } from 'models/user'
+
+import * as styles from './Register.css'
+
+interface IProps {
+  token: string
+  fieldErrors: IFieldErrors
+  hasError: boolean
+  isSaving: boolean
+  onRegister (registration: IRegistration): void
+}
+
+interface IState {
+  username: string
+  name: string
+  password: string
+}
+
+const tokenP = path(['query', 'token'])
+
+const mapStateToProps = ({ admin }: IStore, { location }: any): Partial<IProps> => ({
+  token: tokenP(location),
+  fieldErrors: admin.fieldErrors,
+  hasError: admin.error,
+  isSaving: admin.isSaving
+})
+
+const mapDispatchToProps = (dispatch: any): Partial<IProps> => ({
+  onRegister: (registration: IRegistration): void => dispatch(registerUser(registration))
+})
+
+// Invitees come here by the link from the email, the email and the role are taken from the invite
+class RegisterForm extends React.PureComponent<IProps, IState> {
+  constructor () {
+    super()
+
+    this.state = {
+      username: '',
+      name: '',
+      password: ''
+    }
+
+    this.onChange = this.onChange.bind(this)
+    this.onSubmit = this.onSubmit.bind(this)
+  }
+
+  private onChange ({ currentTarget: { name, value } }: React.ChangeEvent<IFieldElement>): void {
+    const update: Partial<IState> = { [name as keyof IState]: value }
+
+    this.setState(update as Pick<IState, keyof IState>)
+  }
+
+  private onSubmit (event: React.FormEvent<HTMLFormElement>): void {
+    event.preventDefault()
+    this.props.onRegister({ ...this.state, token: this.props.token })
+  }
+
+  public render (): JSX.Element {
+    const { fieldErrors, hasError, isSaving } = this.props
+    const { username, name, password } = this.state
+
+    return (
+      <section>
+        <Helmet title='Регистрация'/>
+        <Title level={ 1 } size={ 28 } className={ styles.register_title }>Регистрация</Title>
+        <form className={ styles.register } onSubmit={ this.onSubmit }>
+          { hasError && !fieldErrors.password && (
+            <Text className={ styles.register_error }>Не удалось зарегистрироваться, возможно, ссылка устарела.</Text>
+          ) }
+          <FormField label='Имя пользователя' error={ fieldErrors.username }>
+            <input
+              type='text'
+              name='username'
+              value={ username }
+              onChange={ this.onChange }
+            />
+          </FormField>
+          <FormField label='Подпись к записям' error={ fieldErrors.name }>
+            <input
+              type='text'
+              name='name'
+              value={ name }
+              onChange={ this.onChange }
+            />
+          </FormField>
+          <FormField label='Пароль' error={ fieldErrors.password }>
+            <input
+              type='password'
+              name='password'
+              value={ password }
+              onChange={ this.onChange }
+              required={ true }
+            />
+          </FormField>
+          <button className={ styles.register_button } type='submit' disabled={ isSaving }>Зарегистрироваться</button>
+        </form>
+      </section>
+    )
+  }
+}
+
+const Register = connect(mapStateToProps, mapDispatchToProps)(RegisterForm)
+
+export { Register }
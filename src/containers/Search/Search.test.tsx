@@ -0,0 +1,11 @@
+import { expect } from 'chai'
+import { renderComponent } from 'helpers/TestHelper'
+import { Search } from './Search'
+
+describe('<Search />', () => {
+  const component = renderComponent(Search, {}, { params: {} })
+
+  it('Renders search form', () => {
+    expect(component.find('form[role="search"]')).to.exist
+  })
+})
@@ -0,0 +1,119 @@
+import * as React from 'react'
+import * as Helmet from 'react-helmet'
+import { asyncConnect } from 'redux-connect'
+import { path, pathOr } from 'utils/ramda'
+
+// Actions
+import { search } from 'state/search'
+
+// Components
+import { PostList, Pagination, SearchForm, Text } from 'components'
+import { ISearch } from 'models/search'
+import { IConnectArguments, IStore } from 'models/store'
+import { paginatedTemplate, searchUrl, searchUrlTemplate } from 'utils'
+
+import * as styles from './Search.css'
+
+interface IProps {
+  query: string
+  total: number
+  itemIds: string[]
+  mods: ISearch['typesById']
+  totalPages: number
+  currentPage: number
+}
+
+const queryP = pathOr('', ['location', 'query', 'q'])
+const pageNumberP = pathOr(1, ['params', 'pageNumber'])
+
+@asyncConnect(
+  [{
+    promise: ({ store, params }: IConnectArguments): Promise<void> => {
+      const { dispatch, getState } = store
+      const query = queryP(getState().application)
+
+      return dispatch(search({
+        query,
+        pagination: {
+          pageNumber: params.pageNumber || 1,
+          key: searchUrlTemplate(query)
+        }
+      }))
+    }
+  }],
+  ({ pagination, search: { totals, typesById }, application }: IStore, { router }: any) => {
+    const query = queryP(application)
+    const key = searchUrlTemplate(query)
+    const pageNumber = pageNumberP(router)
+
+    return {
+      query,
+      total: totals[query],
+      itemIds: path([key, pageNumber], pagination) || [],
+      mods: typesById,
+      totalPages: path([key, 'totalPages'], pagination),
+      currentPage: pageNumber
+    }
+  }
+)
+class Search extends React.PureComponent<IProps, any> {
+  constructor () {
+    super()
+    this.linkBuilder = this.linkBuilder.bind(this)
+  }
+
+  private linkBuilder (pageNumber: number): string {
+    const { query } = this.props
+
+    if (pageNumber === 1) {
+      return searchUrlTemplate(query)
+    }
+
+    return searchUrlTemplate(query, paginatedTemplate(pageNumber)(searchUrl))
+  }
+
+  private renderSummary (): JSX.Element {
+    const { query, total } = this.props
+
+    if (!query || total === undefined) {
+      return null
+    }
+
+    return (
+      <Text className={ styles.search_summary }>
+        { total ? `Найдено: ${total}` : 'По вашему запросу ничего не найдено.' }
+      </Text>
+    )
+  }
+
+  public render (): JSX.Element {
+    const {
+      query,
+      itemIds,
+      mods,
+      totalPages,
+      currentPage
+    } = this.props
+
+    return (
+      <div>
+        <Helmet title={ query ? `Поиск: ${query}` : 'Поиск' }/>
+        <SearchForm query={ query }/>
+        { this.renderSummary() }
+        <section>
+          <PostList
+            itemIds={ itemIds }
+            mods={ mods }
+          />
+        </section>
+        <Pagination
+          currentPage={ currentPage }
+          linkBuilder={ this.linkBuilder }
+          pageCount={ totalPages }
+        />
+      </div>
+    )
+  }
+}
+
+export { Search }
@@ -1,46 +1,137 @@
 import * as React from 'react'
+import * as Helmet from 'react-helmet'
 import { asyncConnect } from 'redux-connect'
 
 // Actions
+import { getAdjacentPosts } from 'state/adjacent'
+import { getComments } from 'state/comments'
 import { getPost } from 'state/posts'
 import { getPage } from 'state/pages'
+import { getRelatedPosts } from 'state/related'
+import { getWebmentions } from 'state/webmentions'
 
 // Components
-import { Post } from 'components'
+import { Post, RelatedPosts, WebmentionList } from 'components'
+import { Comments } from 'containers/Comments/Comments'
 import { IConnectArguments, IAsyncConnectOwnProps, IStore } from 'models/store'
+import {
+  absoluteUrl,
+  getPageFromState,
+  getPostFromState,
+  pageUrlTemplate,
+  postMeta,
+  postUrlTemplate
+} from 'utils'
+
+// Models
+import { IHeadLink } from 'models/appication'
+import { IPage } from 'models/pages'
+import { IAdjacentPostIds, IPost } from 'models/posts'
+import { ITag } from 'models/tags'
+import { IWebmention } from 'models/webmentions'
 
 interface IProps {
   postId?: string
   pageId?: string
+  pageNumber?: number
+  item?: IPost | IPage
+  tags?: ITag[]
+  siteTitle?: string
+  excerptLength?: number
+  mentions?: IWebmention[]
+  related?: IPost[]
+  adjacent?: IAdjacentPostIds[string]
 }
 
+const mentionsOf = ({ webmentions }: IStore, postId?: string): IWebmention[] => Object.keys(webmentions.itemsById)
+  .map((_id: string): IWebmention => webmentions.itemsById[_id])
+  .filter((mention: IWebmention): boolean => mention.postId === postId)
+
+const relatedOf = ({ posts, related }: IStore, postId?: string): IPost[] => (related[postId] || [])
+  .map((_id: string): IPost => posts.itemsById[_id])
+  .filter(Boolean)
+
 @asyncConnect(
   [{
-    promise: ({ store: { dispatch }, params: { postId, pageId } }: IConnectArguments): Promise<void> => {
+    promise: ({ store: { dispatch }, params: { postId, pageId } }: IConnectArguments): Promise<any> => {
       if (postId) {
-        return dispatch(getPost(postId))
+        return Promise.all([
+          dispatch(getPost(postId)),
+          dispatch(getAdjacentPosts(postId)),
+          dispatch(getRelatedPosts(postId)),
+          dispatch(getComments(postId)),
+          dispatch(getWebmentions(postId))
+        ])
       }
 
       return dispatch(getPage(pageId))
     }
   }],
-  (_: IStore, { params }: IAsyncConnectOwnProps = {}) => ({
+  (state: IStore, { params }: IAsyncConnectOwnProps = {}) => ({
     postId: params.postId,
-    pageId: params.pageId
+    pageId: params.pageId,
+    pageNumber: params.pageNumber ? Number(params.pageNumber) : 1,
+    siteTitle: state.settings.title,
+    excerptLength: state.settings.excerptLength,
+    mentions: mentionsOf(state, params.postId),
+    related: relatedOf(state, params.postId),
+    adjacent: state.adjacent[params.postId],
+    ...(params.postId ? getPostFromState(state, params.postId) : getPageFromState(state, params.pageId))
   })
 )
 class Single extends React.PureComponent<IProps, any> {
+  private adjacentLinks (): IHeadLink[] {
+    const { previous, next } = this.props.adjacent || { previous: undefined, next: undefined }
+    const link: IHeadLink[] = []
+
+    if (previous) {
+      link.push({ rel: 'prev', href: absoluteUrl(postUrlTemplate(previous)) })
+    }
+
+    if (next) {
+      link.push({ rel: 'next', href: absoluteUrl(postUrlTemplate(next)) })
+    }
+
+    return link
+  }
+
+  // Rendered on the server too, so crawlers that do not run scripts get the metadata
+  private renderMeta (): JSX.Element {
+    const { postId, item, tags = [], siteTitle, excerptLength } = this.props
+
+    if (!item || !item._id) {
+      return null
+    }
+
+    const url = absoluteUrl(postId ? postUrlTemplate(item._id) : pageUrlTemplate(item._id))
+    const { title, meta, script } = postMeta({ item, tags, url, siteTitle, excerptLength, isPost: !!postId })
+
+    return (
+      <Helmet
+        title={ title }
+        meta={ meta }
+        link={ this.adjacentLinks() }
+        script={ script }
+      />
+    )
+  }
+
   public render (): JSX.Element {
-    const { postId, pageId } = this.props
+    const { postId, pageId, pageNumber, mentions, related } = this.props
     const postType = postId ? 'post' : 'page'
 
     return (
       <section>
+        { this.renderMeta() }
         <Post
           itemId={ postId || pageId }
           isSingle={ true }
+          pageNumber={ pageNumber }
           mod={ postType }
         />
+        { postId && <RelatedPosts posts={ related }/> }
+        { postId && <WebmentionList mentions={ mentions }/> }
+        { postId && <Comments postId={ postId }/> }
       </section>
     )
   }
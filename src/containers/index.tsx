@@ -2,3 +2,16 @@ export { Html } from './Html/Html'
 export { App } from './App/App'
 export { Archive } from './Archive/Archive'
 export { Single } from './Single/Single'
+export { Search } from './Search/Search'
+export { Admin } from './Admin/Admin'
+export { AdminPosts } from './AdminPosts/AdminPosts'
+export { AdminPost } from './AdminPost/AdminPost'
+export { AdminComments } from './AdminComments/AdminComments'
+export { AdminRedirects } from './AdminRedirects/AdminRedirects'
+export { AdminTags } from './AdminTags/AdminTags'
+export { AdminUploads } from './AdminUploads/AdminUploads'
+export { AdminSettings } from './AdminSettings/AdminSettings'
+export { AdminUsers } from './AdminUsers/AdminUsers'
+export { Register } from './Register/Register'
+export { PasswordReset } from './PasswordReset/PasswordReset'
+export { Comments } from './Comments/Comments'
@@ -0,0 +1,21 @@
+import { ICommonFetch } from 'models/flux'
+import { IPost } from 'models/posts'
+
+export type IPostStatus = IPost['status']
+
+// A slug other than the current `_id` moves the post to a new address
+export interface IPostDraft extends Partial<IPost> {
+  slug?: string
+}
+
+export interface IFieldErrors {
+  [K: string]: string
+}
+
+export interface IAdmin extends ICommonFetch {
+  postIds: string[]
+  isSaving: boolean
+  fieldErrors: IFieldErrors
+  // Where the last invite or password reset link went, until the page is left
+  sentTo?: string
+}
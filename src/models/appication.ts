@@ -1,29 +1,38 @@
-interface IHeadMeta {
+export interface IHeadMeta {
   charset?: string
   'http-equiv'?: 'x-ua-compatible'
   content?: string
   name?: string
+  property?: string
 }
 
-interface IHeadLink {
+export interface IHeadLink {
   type?: string
   rel?: string
   href: string
 }
 
+export interface IHeadScript {
+  type: string
+  innerHTML: string
+}
+
+// Form fields are named after the keys of the state they edit
+export type IFieldElement = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+
+export interface ILocation {
+  basepath: string
+  pathname: string
+  query: object
+  search: string
+}
+
 export interface IApplication {
-  title: string
-  titleTemplate: string
   head: {
     meta: IHeadMeta[];
     link: IHeadLink[];
   }
   localApi: string
   wpApi: string
-  location: {
-    basepath: string;
-    pathname: string;
-    query: object;
-    search: string;
-  }
+  location: ILocation
 }
@@ -0,0 +1,31 @@
+import { IFieldErrors } from 'models/admin'
+import { ICommonReducerState } from 'models/flux'
+
+export type ICommentStatus = 'approved' | 'pending' | 'spam'
+
+export interface IComment {
+  _created: string
+  _id: string
+  _updated?: string
+  content: string
+  email?: string
+  name: string
+  parentId?: string
+  postId: string
+  status: ICommentStatus
+}
+
+export interface ICommentNode {
+  comment: IComment
+  replies: ICommentNode[]
+}
+
+export type ICommentFields = Pick<IComment, 'content' | 'email' | 'name' | 'parentId'>
+
+export type ICommentDraft = ICommentFields & Pick<IComment, 'postId'>
+
+export interface IComments extends ICommonReducerState<IComment> {
+  isSubmitting: boolean
+  isSubmitted: boolean
+  fieldErrors: IFieldErrors
+}
@@ -5,12 +5,14 @@ export interface ICrudActionTypes {
   fetchStart: string
   fetchSuccess: string
   fetchError: string
+  deleteSuccess: string
 }
 
 export interface ICrudActionCreators<IItem> {
   fetchStart: IActionCreator<void>
   fetchSuccess: IActionCreator<IItem[]>
   fetchError: IActionCreator<Error>
+  deleteSuccess: IActionCreator<string[]>
 }
 
 interface IOperators {
@@ -30,8 +32,12 @@ interface IOperators {
 }
 
 export interface IQuery {
+  author?: string
+  postId?: string
   tags?: IOperators
   pageNumber?: number
+  year?: string
+  month?: string
 }
 
 export interface ICrudOptions<IReducerState> {
@@ -40,6 +46,7 @@ export interface ICrudOptions<IReducerState> {
 }
 
 export interface ICRUD<IItem> {
+  actions: ICrudActionCreators<IItem>
   reducer: IReducer<ICommonReducerState<IItem>>
   find: IAsyncActionCreator<IFindOptions>
   get: IAsyncActionCreator<string>
@@ -0,0 +1,6 @@
+export type IDiffChunkType = 'added' | 'removed' | 'unchanged'
+
+export interface IDiffChunk {
+  type: IDiffChunkType
+  value: string
+}
@@ -0,0 +1,20 @@
+export type IFeedFormat = 'rss' | 'atom'
+
+export interface IFeedItem {
+  categories: string[]
+  description: string
+  link: string
+  published: string
+  title: string
+  updated?: string
+}
+
+export interface IFeed {
+  author: string
+  description: string
+  feedUrl: string
+  items: IFeedItem[]
+  link: string
+  title: string
+  updated: string
+}
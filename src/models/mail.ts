@@ -0,0 +1,10 @@
+export interface IMail {
+  to: string
+  subject: string
+  text: string
+}
+
+// Delivers emails the api sends, the app keeps one under the `mailTransport` key
+export interface IMailTransport {
+  send (mail: IMail): Promise<void>
+}
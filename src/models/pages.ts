@@ -2,10 +2,13 @@ import { ICommonReducerState } from 'models/flux'
 
 export interface IPage {
   _created: string
+  _html?: string
   _id: string
+  _pages?: string[]
   _updated?: string
   author: string
   content: string
+  contentFormat?: 'html' | 'markdown'
   status: 'draft' | 'publish'
   title?: string
 }
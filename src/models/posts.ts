@@ -2,18 +2,64 @@ import { ICommonReducerState } from 'models/flux'
 
 export interface IPost {
   _created: string
+  _excerpt?: string
+  _html?: string
   _id: string
+  _pages?: string[]
   _updated?: string
   author: string
   content: string
+  contentFormat?: 'html' | 'markdown'
   excerpt?: string
   format: 'standard'
-  status: 'draft' | 'publish'
+  publishAt?: string
+  status: 'draft' | 'publish' | 'scheduled'
   sticky: boolean
   subtitle?: string
-  tags?: number[]
+  tags?: string[]
   title?: string
   type: 'page' | 'post'
 }
 
 export type IPosts = ICommonReducerState<IPost>
+
+export interface IAdjacentPosts {
+  previous?: IPost
+  next?: IPost
+}
+
+// Ids of the neighbours by the id of the post between them
+export interface IAdjacentPostIds {
+  [K: string]: {
+    previous?: string;
+    next?: string;
+  }
+}
+
+export interface IAdjacentUpdateOptions {
+  postId: string
+  previous?: string
+  next?: string
+}
+
+// Ids of related posts by the id of the post they relate to
+export interface IRelatedPosts {
+  [K: string]: string[]
+}
+
+export interface IRelatedUpdateOptions {
+  postId: string
+  itemsList: string[]
+}
+
+// A month of the date archives, months are numbered from 1
+export interface IArchiveMonth {
+  year: number
+  month: number
+  count: number
+}
+
+export interface IDateRange {
+  $gte: Date
+  $lt: Date
+}
@@ -0,0 +1,25 @@
+import { ICommonReducerState } from 'models/flux'
+
+export type IRedirectStatus = 301 | 302 | 410
+
+export interface IRedirect {
+  _created: string
+  _id: string
+  _updated?: string
+  hits: number
+  source: string
+  status: IRedirectStatus
+  target?: string
+}
+
+// Values of `:name` placeholders and the `*` splat of a matched source pattern
+export interface IRedirectParams {
+  [K: string]: string
+}
+
+export interface IRedirectMatch {
+  status: IRedirectStatus
+  location?: string
+}
+
+export type IRedirects = ICommonReducerState<IRedirect>
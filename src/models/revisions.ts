@@ -0,0 +1,24 @@
+import { IDiffChunk } from 'models/diff'
+import { IPage } from 'models/pages'
+import { IPost } from 'models/posts'
+
+export interface IRevision {
+  _created: string
+  _id: string
+  document: IPost | IPage
+  documentId: string
+  removed?: boolean
+  source: string
+}
+
+export interface IRevisionDiff {
+  from: string
+  to: string
+  fields: {
+    [K: string]: IDiffChunk[]
+  }
+}
+
+export interface IRevisionRestore {
+  revision: string
+}
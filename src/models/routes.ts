@@ -0,0 +1,22 @@
+import { PlainRoute } from 'react-router'
+
+// What the server looks up to pick the response status of a route
+export type IRouteEntity = 'archive' | 'author' | 'page' | 'period' | 'post' | 'tag'
+
+export interface IRouteParams {
+  authorId?: string
+  pageId?: string
+  pageNumber?: string
+  postId?: string
+  tagId?: string
+  year?: string
+  month?: string
+}
+
+declare module 'react-router/lib/IndexRoute' {
+  interface IndexRouteProps {
+    entity?: IRouteEntity
+    // Route elements take it just like plain routes do, the typings only know it on the latter
+    getChildRoutes? (partialNextState: any, callback: (error: any, routes: PlainRoute[]) => void): void
+  }
+}
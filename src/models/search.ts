@@ -0,0 +1,29 @@
+import { ICommonFetch } from 'models/flux'
+import { IPage } from 'models/pages'
+import { IPost } from 'models/posts'
+
+export type ISearchResultType = 'post' | 'page'
+
+export type ISearchResult = (IPost | IPage) & {
+  type: ISearchResultType
+}
+
+export interface ISearchDocument {
+  title?: string
+  content?: string
+}
+
+export interface ISearchIndex {
+  add (key: string, document: ISearchDocument): void
+  remove (key: string): void
+  search (query: string): string[]
+}
+
+export interface ISearch extends ICommonFetch {
+  totals: {
+    [K: string]: number
+  }
+  typesById: {
+    [K: string]: ISearchResultType
+  }
+}
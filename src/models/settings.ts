@@ -0,0 +1,11 @@
+import { ICommonFetch } from 'models/flux'
+
+export interface ISettings {
+  title: string
+  titleTemplate: string
+  description: string
+  fontLinks: string[]
+  excerptLength: number
+}
+
+export type ISettingsState = ISettings & ICommonFetch
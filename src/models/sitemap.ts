@@ -0,0 +1,4 @@
+export interface ISitemapEntry {
+  loc: string
+  lastmod?: string
+}
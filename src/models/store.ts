@@ -1,27 +1,48 @@
+import { IAdmin } from 'models/admin'
 import { IApplication } from 'models/appication'
+import { IComments } from 'models/comments'
 import { IHeadlines } from 'models/headlines'
 import { IPages } from 'models/pages'
 import { IPaginationReducerState } from 'models/pagination'
-import { IPosts } from 'models/posts'
+import { IAdjacentPostIds, IArchiveMonth, IPosts, IRelatedPosts } from 'models/posts'
+import { IRedirects } from 'models/redirects'
+import { ISearch } from 'models/search'
+import { ISettingsState } from 'models/settings'
 import { ITags } from 'models/tags'
-import { IUser } from 'models/user'
+import { IUploads } from 'models/uploads'
+import { IAuthors, IUser } from 'models/user'
+import { IWebmentions } from 'models/webmentions'
 import { Store } from 'redux'
 
 export interface IStore {
+  adjacent: IAdjacentPostIds
+  admin: IAdmin
+  archiveMonths: IArchiveMonth[]
+  authors: IAuthors
+  comments: IComments
   headlines: IHeadlines
   pages: IPages
   pagination: IPaginationReducerState
   posts: IPosts
+  redirects: IRedirects
+  related: IRelatedPosts
+  search: ISearch
+  settings: ISettingsState
   tags: ITags
+  uploads: IUploads
   application: IApplication
   user: IUser
+  webmentions: IWebmentions
 }
 
 interface IRouteParams {
+  authorId?: string
   tagId?: string
   postId?: string
   pageId?: string
   pageNumber?: number
+  year?: string
+  month?: string
 }
 
 export interface IConnectArguments {
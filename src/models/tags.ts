@@ -12,3 +12,14 @@ export interface ITag {
 }
 
 export type ITags = ICommonReducerState<ITag>
+
+export interface ITagsMerge {
+  source: string | string[]
+  target: string
+}
+
+// A tag in the tag cloud, weight grows with the number of posts from 1 to the number of steps
+export interface ITagWeight {
+  tag: ITag
+  weight: number
+}
@@ -0,0 +1,36 @@
+import { ICommonReducerState } from 'models/flux'
+
+export interface IUploadVariant {
+  height: number
+  url: string
+  width: number
+}
+
+export interface IUpload {
+  _created: string
+  _id: string
+  _updated?: string
+  alt?: string
+  filename: string
+  height: number
+  mimeType: string
+  size: number
+  url: string
+  variants: IUploadVariant[]
+  width: number
+}
+
+// A file parsed from a multipart request by multer
+export interface IUploadFile {
+  buffer: Buffer
+  mimetype: string
+  originalname: string
+  size: number
+}
+
+export type IUploads = ICommonReducerState<IUpload>
+
+export interface IUploadRequest {
+  file: File
+  alt?: string
+}
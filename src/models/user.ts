@@ -1,24 +1,83 @@
 import { UserRoles } from 'utils/user'
 
 // Models
-import { ICommonFetch } from 'models/flux'
+import { ICommonFetch, ICommonReducerState } from 'models/flux'
 
 export interface IUserData {
   _created?: string
   _id?: string
   _updated?: string
+  avatar?: string
+  bio?: string
   email?: string
   level: UserRoles
+  name?: string
   url?: string
   username?: string
 }
 
+// What anyone can see about a user, posts show it as their author
+export interface IAuthor {
+  _id: string
+  avatar?: string
+  bio?: string
+  name: string
+  url?: string
+}
+
+export type IAuthors = ICommonReducerState<IAuthor>
+
 export interface IUser extends ICommonFetch {
   isLoggedIn: boolean
   userData: IUserData
 }
 
+/**
+ * Users of the `create` role and above may create items, users of the `edit` role and above may change any of them.
+ * Users of the `editOwn` role and above may change those that name them in `ownerField`.
+ */
+export interface IPermission {
+  create: UserRoles
+  edit: UserRoles
+  editOwn?: UserRoles
+  ownerField?: string
+}
+
 export interface IUserCredentials {
   email: string
   password: string
 }
+
+export interface IUserInvite {
+  email: string
+  level: UserRoles
+}
+
+// The invitee picks the rest of their profile, the email and the role come with the invite
+export interface IRegistration {
+  token: string
+  password: string
+  username?: string
+  name?: string
+}
+
+export interface IPasswordResetRequest {
+  email: string
+}
+
+// The token from the link is the id of the update, only the password is sent
+export interface IPasswordReset {
+  password: string
+}
+
+export type IUserTokenKind = 'invite' | 'reset'
+
+// Tokens are stored hashed, the raw ones exist in emails only
+export interface IUserToken {
+  _id: string
+  kind: IUserTokenKind
+  email: string
+  expiresAt: Date
+  level?: UserRoles
+  userId?: string
+}
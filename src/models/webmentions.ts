@@ -0,0 +1,47 @@
+import { ICommonReducerState } from 'models/flux'
+
+export type IWebmentionType = 'like' | 'mention' | 'reply' | 'repost'
+
+export interface IWebmentionAuthor {
+  name: string
+  url?: string
+  photo?: string
+}
+
+export interface IWebmention {
+  _created: string
+  _id: string
+  _updated?: string
+  author?: IWebmentionAuthor
+  content?: string
+  postId: string
+  source: string
+  target: string
+  type: IWebmentionType
+}
+
+export interface IWebmentionRequest {
+  source: string
+  target: string
+}
+
+export type IWebmentions = ICommonReducerState<IWebmention>
+
+// The subset of fetch the webmention code relies on, so it can be replaced in tests
+export interface IFetchResponse {
+  ok: boolean
+  status: number
+  url?: string
+  headers: {
+    get (name: string): string | null
+  }
+  text (): Promise<string>
+}
+
+export interface IFetchOptions {
+  method?: string
+  headers?: { [K: string]: string }
+  body?: string
+}
+
+export type IFetcher = (url: string, options?: IFetchOptions) => Promise<IFetchResponse>
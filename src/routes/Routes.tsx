@@ -1,38 +1,105 @@
-import { App, Archive, Single } from 'containers'
+import {
+  Admin,
+  AdminComments,
+  AdminPost,
+  AdminPosts,
+  AdminRedirects,
+  AdminSettings,
+  AdminTags,
+  AdminUploads,
+  AdminUsers,
+  App,
+  Archive,
+  PasswordReset,
+  Register,
+  Search,
+  Single
+} from 'containers'
 import * as React from 'react'
-import { IndexRoute, Redirect, Route } from 'react-router'
-import { paginatedTemplate, postUrlTemplate, pageUrlTemplate, tagUrlTemplate } from 'utils'
+import { createRoutes, IndexRoute, PlainRoute, Route } from 'react-router'
+import {
+  adminCommentsUrl,
+  adminPostUrlTemplate,
+  adminRedirectsUrl,
+  adminSettingsUrl,
+  adminTagsUrl,
+  adminUploadsUrl,
+  adminUrl,
+  adminUsersUrl,
+  authorUrlTemplate,
+  dateArchiveRegExp,
+  monthUrlTemplate,
+  paginatedTemplate,
+  postUrlTemplate,
+  pageUrlTemplate,
+  registerUrl,
+  resetPasswordUrl,
+  searchUrl,
+  tagUrlTemplate,
+  yearUrlTemplate
+} from 'utils'
 
 const postUrl = postUrlTemplate(':postId')
 const pageUrl = pageUrlTemplate(':pageId')
 const tagUrl = tagUrlTemplate(':tagId')
+const authorUrl = authorUrlTemplate(':authorId')
 const paginate = paginatedTemplate(':pageNumber')
+const adminPostUrl = adminPostUrlTemplate(':postId')
+const yearUrl = yearUrlTemplate(':year')
+const monthUrl = monthUrlTemplate(':year', ':month')
+
+// Paths cannot be limited to numbers, so date archives are only offered to paths starting with a year
+const dateArchiveRoutes = createRoutes([
+  <Route key='year' path={ yearUrl } component={ Archive } entity='period'/>,
+  <Route key='yearPage' path={ paginate(yearUrl) } component={ Archive } entity='period'/>,
+  <Route key='month' path={ monthUrl } component={ Archive } entity='period'/>,
+  <Route key='monthPage' path={ paginate(monthUrl) } component={ Archive } entity='period'/>
+])
+
+const getDateArchiveRoutes = ({ location }: any, callback: (error: any, routes: PlainRoute[]) => void): void => {
+  callback(null, dateArchiveRegExp.test(location.pathname) ? dateArchiveRoutes : [])
+}
 
 export default (
   <Route path='/' component={ App }>
-    { /* Redirects */ }
-    <Redirect from='blog' to='/'/>
-    <Redirect from='blog/:tagId/:postId/' to={ postUrl }/>
-    <Redirect from='blog/:tagId/:postId/page/:pageNumber/' to={ paginate(postUrl) }/>
-    <Redirect from='cats/:tagId/' to={ tagUrl }/>
-    <Redirect from='dogs/:tagId/' to={ tagUrl }/>
-    <Redirect from='cats/:tagId/page/:pageNumber/' to={ paginate(tagUrl) }/>
-    <Redirect from='dogs/:tagId/page/:pageNumber/' to={ paginate(tagUrl) }/>
-
     { /* Main archive */ }
-    <IndexRoute component={ Archive }/>
-    <Route path={ paginate('') } component={ Archive }/>
+    <IndexRoute component={ Archive } entity='archive'/>
+    <Route path={ paginate('') } component={ Archive } entity='archive'/>
 
     { /* Posts */ }
-    <Route path={ postUrl } component={ Single }/>
-    <Route path={ paginate(postUrl) } component={ Single }/>
+    <Route path={ postUrl } component={ Single } entity='post'/>
+    <Route path={ paginate(postUrl) } component={ Single } entity='post'/>
 
     { /* Archives */ }
-    <Route path={ tagUrl } component={ Archive }/>
-    <Route path={ paginate(tagUrl) } component={ Archive }/>
+    <Route path={ tagUrl } component={ Archive } entity='tag'/>
+    <Route path={ paginate(tagUrl) } component={ Archive } entity='tag'/>
+    <Route path={ authorUrl } component={ Archive } entity='author'/>
+    <Route path={ paginate(authorUrl) } component={ Archive } entity='author'/>
+
+    { /* Search */ }
+    <Route path={ searchUrl } component={ Search }/>
+    <Route path={ paginate(searchUrl) } component={ Search }/>
+
+    { /* Admin */ }
+    { /* Open to anonymous visitors, unlike the rest of the admin */ }
+    <Route path={ registerUrl } component={ Register }/>
+    <Route path={ resetPasswordUrl } component={ PasswordReset }/>
+    <Route path={ adminUrl } component={ Admin }>
+      <IndexRoute component={ AdminPosts }/>
+      <Route path={ adminPostUrl } component={ AdminPost }/>
+      <Route path={ adminCommentsUrl } component={ AdminComments }/>
+      <Route path={ adminTagsUrl } component={ AdminTags }/>
+      <Route path={ adminRedirectsUrl } component={ AdminRedirects }/>
+      <Route path={ adminUploadsUrl } component={ AdminUploads }/>
+      <Route path={ adminSettingsUrl } component={ AdminSettings }/>
+      <Route path={ adminUsersUrl } component={ AdminUsers }/>
+    </Route>
+
+    { /* Date archives */ }
+    <Route getChildRoutes={ getDateArchiveRoutes }/>
 
     { /* Pages */ }
-    <Route path={ pageUrl } component={ Single }/>
-    <Route path={ paginate(pageUrl) } component={ Single }/>
+    <Route path={ pageUrl } component={ Single } entity='page'/>
+    <Route path={ paginate(pageUrl) } component={ Single } entity='page'/>
   </Route>
 )
@@ -7,8 +7,14 @@ import { createMemoryHistory, match } from 'react-router'
 import { syncHistoryWithStore } from 'react-router-redux'
 import { setupApplication } from 'api'
 import routes from 'routes/Routes'
+import { feedHandler } from 'server/feed'
 import { matchCallback } from 'server/matchCallback'
+import { redirectsHandler } from 'server/redirects'
+import { robotsHandler } from 'server/robots'
+import { setupSitemap, sitemapHandler } from 'server/sitemap'
 import { configureStore } from 'state/store'
+import { atomFeedUrlTemplate, feedUrlTemplate, tagUrlTemplate, uploadsUrl } from 'utils'
+import { uploadsPath } from 'utils/server'
 
 const appConfig = require('../config/main')
 
@@ -57,12 +63,28 @@ if (process.env.NODE_ENV !== 'production') {
 
 app.use(favicon(path.join(__dirname, 'public/favicon.ico')))
 app.use('/public', feathers.static(path.join(__dirname, 'public')))
+// Uploads are named by their content, so they never change
+app.use(uploadsUrl, feathers.static(uploadsPath(''), { maxAge: '1y' }))
 
 setupApplication(app)
+setupSitemap(app)
 
 // Some services do not use it, so pass it directly
 app.use(errorsHandler())
 
+// Feeds
+app.get(feedUrlTemplate('/'), feedHandler('rss'))
+app.get(atomFeedUrlTemplate('/'), feedHandler('atom'))
+app.get(feedUrlTemplate(tagUrlTemplate(':tagId')), feedHandler('rss'))
+app.get(atomFeedUrlTemplate(tagUrlTemplate(':tagId')), feedHandler('atom'))
+
+// Search engines
+app.get('/sitemap.xml', sitemapHandler)
+app.get('/robots.txt', robotsHandler)
+
+// Stored redirects, the legacy ones of the WordPress blog among them, are looked up before the routes
+app.get('*', redirectsHandler)
+
 app.get('*', (req: any, res: any) => {
   const location = req.url
   const memoryHistory = createMemoryHistory(req.originalUrl)
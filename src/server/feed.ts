@@ -0,0 +1,137 @@
+import * as debug from 'debug'
+import { app } from 'services/api'
+import {
+  absoluteUrl,
+  atomFeedUrlTemplate,
+  feedUrlTemplate,
+  makeExcerpt,
+  postUrlTemplate,
+  settingsFromOptions,
+  settingsOptionIds,
+  tagUrlTemplate
+} from 'utils'
+import { indexBy, prop } from 'utils/ramda'
+import { plainText, renderAtom, renderMarkdown, renderRss } from 'utils/server'
+import { HTTP_STATUS } from './httpStatuses'
+
+// Models
+import { IFeed, IFeedFormat, IFeedItem } from 'models/feed'
+import { IOption } from 'models/options'
+import { IPost } from 'models/posts'
+import { ISettings } from 'models/settings'
+import { ITag } from 'models/tags'
+
+const FEED_SIZE = 20
+
+const logError = debug('k:server:feed:error')
+
+const renderers = {
+  rss: renderRss,
+  atom: renderAtom
+}
+
+const contentTypes = {
+  rss: 'application/rss+xml',
+  atom: 'application/atom+xml'
+}
+
+const feedUrls = {
+  rss: feedUrlTemplate,
+  atom: atomFeedUrlTemplate
+}
+
+const getSettings = async (): Promise<ISettings> => {
+  const options: IOption[] = await app.service('api/options').find({
+    query: {
+      _id: {
+        $in: settingsOptionIds
+      }
+    }
+  })
+
+  return settingsFromOptions(options)
+}
+
+const getPostTags = async (posts: IPost[]): Promise<{ [K: string]: ITag }> => {
+  const tagIds = [...new Set([].concat(...posts.map((post: IPost) => post.tags || [])))]
+
+  if (!tagIds.length) {
+    return {}
+  }
+
+  const tags: ITag[] = await app.service('api/tags').find({
+    query: {
+      _id: {
+        $in: tagIds
+      }
+    }
+  })
+
+  return indexBy(prop('_id'), tags)
+}
+
+// Excerpts are cut from plain text, cutting markup could leave a tag or an entity unfinished
+const postText = ({ _html, content = '', contentFormat }: IPost): string =>
+  plainText(_html || (contentFormat === 'markdown' ? renderMarkdown(content) : content))
+
+const toFeedItem =
+  (tagsById: { [K: string]: ITag }, excerptLength: number): (post: IPost) => IFeedItem =>
+    (post: IPost): IFeedItem => ({
+      title: post.title || makeExcerpt(excerptLength)(postText(post)),
+      link: absoluteUrl(postUrlTemplate(post._id)),
+      description: plainText(post._excerpt || post.excerpt || '') || makeExcerpt(excerptLength)(postText(post)),
+      published: post._created,
+      updated: post._updated,
+      categories: (post.tags || [])
+        .filter((tagId: string) => tagsById[tagId])
+        .map((tagId: string) => tagsById[tagId].title)
+    })
+
+export const feedHandler =
+  (format: IFeedFormat): any =>
+    async (req: any, res: any): Promise<void> => {
+      const { tagId } = req.params
+      const query: any = {
+        status: 'publish',
+        $limit: FEED_SIZE
+      }
+      let basePath = '/'
+
+      try {
+        const settings = await getSettings()
+        let title = settings.title
+
+        if (tagId) {
+          const tag: ITag = await app.service('api/tags').get(tagId)
+
+          title = `${tag.title} | ${title}`
+          basePath = tagUrlTemplate(tagId)
+          query.tags = {
+            $elemMatch: tagId
+          }
+        }
+
+        const { data: posts } = await app.service('api/posts').find({ query })
+        const tagsById = await getPostTags(posts)
+        const feed: IFeed = {
+          title,
+          author: settings.title,
+          description: settings.description,
+          link: absoluteUrl(basePath),
+          feedUrl: absoluteUrl(feedUrls[format](basePath)),
+          updated: posts.length ? posts[0]._updated || posts[0]._created : new Date().toISOString(),
+          items: posts.map(toFeedItem(tagsById, settings.excerptLength))
+        }
+
+        res.set('Content-Type', `${contentTypes[format]}; charset=utf-8`)
+        res.status(HTTP_STATUS.OK).send(renderers[format](feed))
+      } catch (error) {
+        if (error.code === HTTP_STATUS.NOT_FOUND) {
+          res.status(HTTP_STATUS.NOT_FOUND).send('Not Found')
+          return
+        }
+
+        logError(error)
+        res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send(error.message)
+      }
+    }
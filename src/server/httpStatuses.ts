@@ -2,5 +2,6 @@ export const HTTP_STATUS = {
   OK: 200,
   MOVED_PERMANENTLY: 301,
   NOT_FOUND: 404,
+  GONE: 410,
   INTERNAL_SERVER_ERROR: 500
 }
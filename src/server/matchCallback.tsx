@@ -1,11 +1,15 @@
+import * as debug from 'debug'
 import * as React from 'react'
 import * as ReactDOMServer from 'react-dom/server'
 import { Provider } from 'react-redux'
 import { ReduxAsyncConnect, loadOnServer } from 'redux-connect'
+import { ServerError } from 'components'
 import { Html } from 'containers'
-import { app } from 'services/api'
 const manifest = require('../../build/manifest.json')
 import { HTTP_STATUS } from './httpStatuses'
+import { routeStatus } from './routeStatus'
+
+const logError = debug('k:server:render:error')
 
 export const matchCallback =
   (res: any, store: any): any =>
@@ -15,29 +19,22 @@ export const matchCallback =
       } else if (redirectLocation) {
         res.redirect(HTTP_STATUS.MOVED_PERMANENTLY, redirectLocation.pathname + redirectLocation.search)
       } else if (renderProps) {
-        let status = HTTP_STATUS.OK
+        try {
+          const status = await routeStatus(renderProps)
+          const asyncRenderData = { ...renderProps, store }
 
-        if (renderProps.params.pageId) {
-          const service = app.service(`api/pages`)
-          try {
-            const page = await service.get(renderProps.params.pageId)
-            if (!page) {
-              status = HTTP_STATUS.NOT_FOUND
-            }
-          } catch (err) {
-            status = HTTP_STATUS.NOT_FOUND
-          }
+          await loadOnServer(asyncRenderData)
+          const markup = ReactDOMServer.renderToString((
+            <Provider store={ store } key='provider'>
+              <ReduxAsyncConnect { ...renderProps } />
+            </Provider>
+          ))
+          res.status(status).send(renderHTML(markup, store))
+        } catch (err) {
+          logError(err)
+          const markup = ReactDOMServer.renderToString(<ServerError/>)
+          res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send(renderHTML(markup, store))
         }
-
-        const asyncRenderData = Object.assign({}, renderProps, { store })
-
-        await loadOnServer(asyncRenderData)
-        const markup = ReactDOMServer.renderToString((
-          <Provider store={ store } key='provider'>
-            <ReduxAsyncConnect { ...renderProps } />
-          </Provider>
-        ))
-        res.status(status).send(renderHTML(markup, store))
       } else {
         res.status(HTTP_STATUS.NOT_FOUND).send('Not Found?')
       }
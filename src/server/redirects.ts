@@ -0,0 +1,37 @@
+import * as debug from 'debug'
+import { redirectsServiceName } from 'api/redirects/serviceName'
+import { app } from 'services/api'
+import { HTTP_STATUS } from './httpStatuses'
+
+// Models
+import { IRedirectMatch } from 'models/redirects'
+
+const logError = debug('k:server:redirects:error')
+
+// The query string is kept unless the target has its own
+const withSearch = (location: string, url: string): string => {
+  const searchIndex = url.indexOf('?')
+
+  return searchIndex === -1 || location.indexOf('?') !== -1 ? location : location + url.slice(searchIndex)
+}
+
+/**
+ * Answers with a stored redirect before the routes are matched, so broken inbound links are fixed without a deploy
+ */
+export const redirectsHandler = async (req: any, res: any, next: () => void): Promise<void> => {
+  let redirect: IRedirectMatch
+
+  try {
+    redirect = await app.service(`api/${redirectsServiceName}`).resolve(req.path)
+  } catch (error) {
+    logError(error)
+  }
+
+  if (!redirect) {
+    next()
+  } else if (redirect.status === HTTP_STATUS.GONE || !redirect.location) {
+    res.status(HTTP_STATUS.GONE).send('Gone')
+  } else {
+    res.redirect(redirect.status, withSearch(redirect.location, req.url))
+  }
+}
@@ -0,0 +1,29 @@
+import { app } from 'services/api'
+import { absoluteUrl } from 'utils'
+import { HTTP_STATUS } from './httpStatuses'
+
+// Models
+import { IOption } from 'models/options'
+
+export const robotsOptionName = 'robots_txt'
+
+const defaultRobots = [
+  'User-agent: *',
+  'Disallow: /api/',
+  'Disallow: /admin/',
+  `Sitemap: ${absoluteUrl('/sitemap.xml')}`
+].join('\n')
+
+export const robotsHandler = async (_: any, res: any): Promise<void> => {
+  let robots = defaultRobots
+
+  try {
+    const option: IOption = await app.service('api/options').get(robotsOptionName)
+    robots = option.value
+  } catch (error) {
+    // Option is not set, use the default one
+  }
+
+  res.set('Content-Type', 'text/plain; charset=utf-8')
+  res.status(HTTP_STATUS.OK).send(robots)
+}
@@ -0,0 +1,114 @@
+import { pagesServiceName } from 'api/pages'
+import { postsServiceName } from 'api/posts/serviceName'
+import { revisionsServiceName } from 'api/revisions/serviceName'
+import { tagsServiceName } from 'api/tags/serviceName'
+import { usersServiceName } from 'api/users/serviceName'
+import { app } from 'services/api'
+import { archiveQuery, getContentPages } from 'utils'
+import { periodRange } from 'utils/server'
+
+import { HTTP_STATUS } from './httpStatuses'
+
+// Models
+import { IPage } from 'models/pages'
+import { IPost } from 'models/posts'
+import { IRouteEntity, IRouteParams } from 'models/routes'
+
+type IStatusResolver = (params: IRouteParams) => Promise<number>
+
+const isNotFound = (error: any): boolean => error.code === HTTP_STATUS.NOT_FOUND
+
+const toPageNumber = (pageNumber: string = '1'): number => Number(pageNumber)
+
+const isPageNumber = (pageNumber: number): boolean => Number.isInteger(pageNumber) && pageNumber > 0
+
+// Removing a post or a page leaves a revision behind, anything else missing has never been there
+const missingStatus = async (source: string, documentId: string): Promise<number> => {
+  const revisions = await app.service(`api/${revisionsServiceName}`).find({
+    query: { documentId, source, removed: true, $limit: 1 }
+  })
+
+  return revisions.length ? HTTP_STATUS.GONE : HTTP_STATUS.NOT_FOUND
+}
+
+const contentStatus = (source: string, idParam: 'pageId' | 'postId'): IStatusResolver =>
+  async (params: IRouteParams): Promise<number> => {
+    const id = params[idParam]
+    let item: IPost | IPage
+
+    try {
+      item = await app.service(`api/${source}`).get(id)
+    } catch (error) {
+      if (isNotFound(error)) {
+        return missingStatus(source, id)
+      }
+
+      throw error
+    }
+
+    const hasPage = getContentPages(item)[toPageNumber(params.pageNumber) - 1] !== undefined
+
+    return hasPage ? HTTP_STATUS.OK : HTTP_STATUS.NOT_FOUND
+  }
+
+// The first page of an archive exists even with no posts in it
+const archiveStatus: IStatusResolver = async (params: IRouteParams): Promise<number> => {
+  const page = toPageNumber(params.pageNumber)
+
+  if (!isPageNumber(page)) {
+    return HTTP_STATUS.NOT_FOUND
+  }
+
+  const query = { ...archiveQuery(params), pageNumber: page }
+  const { data } = await app.service(`api/${postsServiceName}`).find({ query })
+
+  return data.length || page === 1 ? HTTP_STATUS.OK : HTTP_STATUS.NOT_FOUND
+}
+
+// Unlike the other archives, a year or a month without posts is not there at all
+const periodStatus: IStatusResolver = async (params: IRouteParams): Promise<number> => {
+  if (!periodRange(params.year, params.month)) {
+    return HTTP_STATUS.NOT_FOUND
+  }
+
+  const { total } = await app.service(`api/${postsServiceName}`).find({
+    query: { ...archiveQuery(params), $limit: 0 }
+  })
+
+  return total ? archiveStatus(params) : HTTP_STATUS.NOT_FOUND
+}
+
+// Archives of a tag or an author are only there while the tag or the author is
+const ownedArchiveStatus = (source: string, idParam: 'authorId' | 'tagId'): IStatusResolver =>
+  async (params: IRouteParams): Promise<number> => {
+    try {
+      await app.service(`api/${source}`).get(params[idParam])
+    } catch (error) {
+      if (isNotFound(error)) {
+        return HTTP_STATUS.NOT_FOUND
+      }
+
+      throw error
+    }
+
+    return archiveStatus(params)
+  }
+
+const resolvers: { [K in IRouteEntity]: IStatusResolver } = {
+  archive: archiveStatus,
+  author: ownedArchiveStatus(usersServiceName, 'authorId'),
+  page: contentStatus(pagesServiceName, 'pageId'),
+  period: periodStatus,
+  post: contentStatus(postsServiceName, 'postId'),
+  tag: ownedArchiveStatus(tagsServiceName, 'tagId')
+}
+
+/**
+ * Response status of the matched route, by the entity it declares in its `entity` prop.
+ * Errors other than a missing entity are thrown, they are not the visitor's fault.
+ */
+export const routeStatus = ({ routes, params }: { routes: any[], params: IRouteParams }): Promise<number> => {
+  const { entity } = routes[routes.length - 1]
+
+  return entity ? resolvers[entity as IRouteEntity](params) : Promise.resolve(HTTP_STATUS.OK)
+}
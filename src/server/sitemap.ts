@@ -0,0 +1,115 @@
+import * as debug from 'debug'
+import { postsPerPage } from 'api/posts'
+import { app } from 'services/api'
+import { absoluteUrl, pageUrlTemplate, paginatedTemplate, postUrlTemplate, tagUrlTemplate } from 'utils'
+import { times } from 'utils/ramda'
+import { renderSitemap } from 'utils/server'
+import { HTTP_STATUS } from './httpStatuses'
+
+// Models
+import { IPage } from 'models/pages'
+import { IPost } from 'models/posts'
+import { ISitemapEntry } from 'models/sitemap'
+import { ITag } from 'models/tags'
+
+interface ITimestamps {
+  _created: string
+  _updated?: string
+}
+
+const logError = debug('k:server:sitemap:error')
+const sourceServices = ['posts', 'pages', 'tags']
+
+let sitemap: Promise<string>
+
+const lastmodOf = ({ _created, _updated }: ITimestamps): string => _updated || _created
+const latestOf = (items: ITimestamps[]): string => items
+  .map(lastmodOf)
+  .reduce((latest: string, current: string): string =>
+    !latest || new Date(current) > new Date(latest) ? current : latest, undefined)
+
+const findAll = <IItem> (serviceName: string, query: object = {}): Promise<IItem[]> =>
+  app.service(`api/${serviceName}`).find({
+    query,
+    paginate: false
+  })
+
+// Archive pages with lastmod of the most recently changed post on each page
+const archiveEntries = (basePath: string, posts: IPost[]): ISitemapEntry[] => {
+  const totalPages = Math.max(Math.ceil(posts.length / postsPerPage), 1)
+
+  return times((index: number): ISitemapEntry => {
+    const pageNumber = index + 1
+
+    return {
+      loc: absoluteUrl(pageNumber === 1 ? basePath : paginatedTemplate(pageNumber)(basePath)),
+      lastmod: latestOf(posts.slice(index * postsPerPage, pageNumber * postsPerPage))
+    }
+  }, totalPages)
+}
+
+const buildSitemap = async (): Promise<string> => {
+  const [posts, pages, tags] = await Promise.all([
+    findAll<IPost>('posts', { status: 'publish' }),
+    findAll<IPage>('pages', { status: 'publish' }),
+    findAll<ITag>('tags')
+  ])
+
+  const tagEntries = tags.map((tag: ITag): ISitemapEntry[] => archiveEntries(
+    tagUrlTemplate(tag._id),
+    posts.filter((post: IPost) => (post.tags || []).indexOf(tag._id) !== -1)
+  ))
+
+  return renderSitemap([
+    ...archiveEntries('/', posts),
+    ...posts.map((post: IPost): ISitemapEntry => ({
+      loc: absoluteUrl(postUrlTemplate(post._id)),
+      lastmod: lastmodOf(post)
+    })),
+    ...pages.map((page: IPage): ISitemapEntry => ({
+      loc: absoluteUrl(pageUrlTemplate(page._id)),
+      lastmod: lastmodOf(page)
+    })),
+    ...[].concat(...tagEntries)
+  ])
+}
+
+// A single save clears caches many times over, so writes only drop the sitemap and the next request builds it
+const markStale = (): void => {
+  sitemap = undefined
+}
+
+const getSitemap = (): Promise<string> => {
+  if (!sitemap) {
+    const build = buildSitemap()
+
+    sitemap = build
+    build.catch((error: Error): void => {
+      logError(error)
+
+      // A write may have dropped it already, and a newer build may have taken its place
+      if (sitemap === build) {
+        sitemap = undefined
+      }
+    })
+  }
+
+  return sitemap
+}
+
+export const setupSitemap = (application: any): void => {
+  sourceServices.forEach((serviceName: string): void => {
+    application.service(`api/${serviceName}`).on('cacheCleared', markStale)
+  })
+}
+
+export const sitemapHandler = async (_: any, res: any): Promise<void> => {
+  try {
+    const result = await getSitemap()
+
+    res.set('Content-Type', 'application/xml; charset=utf-8')
+    res.status(HTTP_STATUS.OK).send(result)
+  } catch (error) {
+    res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).send(error.message)
+  }
+}
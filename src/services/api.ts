@@ -1,5 +1,8 @@
 let app
 
+// Uploads go past the feathers client, which only speaks JSON
+const host = process.env.HOST || 'http://localhost:8889'
+
 if (process.env.BROWSER) {
   const feathers = require('feathers/client')
   const hooks = require('feathers-hooks')
@@ -7,7 +10,6 @@ if (process.env.BROWSER) {
   const authentication = require('feathers-authentication/client')
 
   app = feathers()
-  const host = process.env.HOST || 'http://localhost:8889'
 
   app
     .configure(rest(host).fetch(fetch))
@@ -19,5 +21,6 @@ if (process.env.BROWSER) {
 }
 
 export {
-  app
+  app,
+  host
 }
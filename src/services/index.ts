@@ -1,2 +1,2 @@
 export { request } from './request'
-export { app } from './api'
+export { app, host } from './api'
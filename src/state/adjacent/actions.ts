@@ -0,0 +1,40 @@
+import * as debug from 'debug'
+import { app } from 'services'
+import { postsService } from 'state/posts'
+import { createAction } from 'utils'
+import { ADJACENT_UPDATE } from './types'
+
+// Models
+import { IAsyncAction, IAsyncActionCreator } from 'models/flux'
+import { IAdjacentPosts, IAdjacentUpdateOptions } from 'models/posts'
+import { IGetState, IStore } from 'models/store'
+import { Dispatch } from 'redux'
+
+const logError = debug('k:adjacent:error')
+
+export const adjacentUpdate = createAction<IAdjacentUpdateOptions>(ADJACENT_UPDATE)
+
+/**
+ * Navigation is an extra, so a failure just leaves it out
+ */
+export const getAdjacentPosts: IAsyncActionCreator<string> = (postId: string): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>, getState: IGetState): Promise<void> => {
+    if (getState().adjacent[postId]) {
+      return
+    }
+
+    try {
+      const { previous, next }: IAdjacentPosts = await app.service('api/posts/adjacent').get(postId)
+
+      await dispatch(postsService.actions.fetchSuccess([previous, next].filter(Boolean)))
+      await dispatch(adjacentUpdate({
+        postId,
+        previous: previous && previous._id,
+        next: next && next._id
+      }))
+    } catch (error) {
+      logError(error)
+    }
+  }
+
+getAdjacentPosts.actionName = 'getAdjacentPosts'
@@ -0,0 +1,2 @@
+export { adjacentReducer } from './reducer'
+export { adjacentUpdate, getAdjacentPosts } from './actions'
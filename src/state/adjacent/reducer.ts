@@ -0,0 +1,18 @@
+import { ADJACENT_UPDATE } from './types'
+
+// Models
+import { IAction } from 'models/flux'
+import { IAdjacentPostIds } from 'models/posts'
+
+export const adjacentReducer = (state: IAdjacentPostIds = {}, action: IAction): IAdjacentPostIds => {
+  if (action.type === ADJACENT_UPDATE) {
+    const { postId, previous, next } = action.payload
+
+    return {
+      ...state,
+      [postId]: { previous, next }
+    }
+  }
+
+  return state
+}
@@ -0,0 +1 @@
+export const ADJACENT_UPDATE = 'adjacent/UPDATE'
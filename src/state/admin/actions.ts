@@ -0,0 +1,411 @@
+import * as debug from 'debug'
+import { push } from 'react-router-redux'
+import { app, host } from 'services'
+import { commentsService } from 'state/comments'
+import { postsService } from 'state/posts'
+import { redirectsService } from 'state/redirects'
+import { settingsFetchSuccess } from 'state/settings'
+import { tagsService } from 'state/tags'
+import { uploadsService } from 'state/uploads'
+import { userLogin } from 'state/user'
+import { adminPostUrlTemplate, adminUrl, createAction, settingsOptions } from 'utils'
+import { prop } from 'utils/ramda'
+import {
+  ADMIN_MAIL_SENT,
+  ADMIN_POSTS_ERROR,
+  ADMIN_POSTS_START,
+  ADMIN_POSTS_SUCCESS,
+  ADMIN_SAVE_ERROR,
+  ADMIN_SAVE_START,
+  ADMIN_SAVE_SUCCESS
+} from './types'
+
+// Models
+import { IPostDraft, IPostStatus } from 'models/admin'
+import { IComment } from 'models/comments'
+import { IAsyncAction, IAsyncActionCreator } from 'models/flux'
+import { IOption } from 'models/options'
+import { IPaginatedResult } from 'models/pagination'
+import { IPost } from 'models/posts'
+import { IRedirect } from 'models/redirects'
+import { ISettings } from 'models/settings'
+import { IStore } from 'models/store'
+import { ITag, ITagsMerge } from 'models/tags'
+import { IUpload, IUploadRequest } from 'models/uploads'
+import { IPasswordReset, IPasswordResetRequest, IRegistration, IUserData, IUserInvite } from 'models/user'
+import { Dispatch } from 'redux'
+
+type ITagsRequest = (tags: any) => Promise<any>
+
+const logError = debug('k:admin:error')
+
+// The list has no pagination yet, so it simply asks for more posts than a blog page holds
+const adminPostsLimit = 100
+
+const adminPostsStart = createAction(ADMIN_POSTS_START)
+const adminPostsSuccess = createAction(ADMIN_POSTS_SUCCESS)
+const adminPostsError = createAction(ADMIN_POSTS_ERROR)
+const adminSaveStart = createAction(ADMIN_SAVE_START)
+const adminSaveSuccess = createAction(ADMIN_SAVE_SUCCESS)
+const adminSaveError = createAction(ADMIN_SAVE_ERROR)
+const adminMailSent = createAction(ADMIN_MAIL_SENT)
+
+export const getAdminPosts: IAsyncActionCreator<IPostStatus> = (status?: IPostStatus): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>): Promise<void> => {
+    await dispatch(adminPostsStart())
+
+    try {
+      const query = status ? { status, $limit: adminPostsLimit } : { $limit: adminPostsLimit }
+      const { data }: IPaginatedResult<IPost> = await app.service('api/posts').find({ query })
+
+      await dispatch(postsService.actions.fetchSuccess(data))
+      await dispatch(adminPostsSuccess(data.map(prop('_id'))))
+    } catch (error) {
+      logError(error)
+      await dispatch(adminPostsError(error))
+    }
+  }
+
+getAdminPosts.actionName = 'getAdminPosts'
+getAdminPosts.onlyClient = true
+
+/**
+ * Creates a post when it has no _id yet and patches it otherwise.
+ * A freshly created or moved post is opened in the editor at its new address, so the next save patches it.
+ */
+export const savePost: IAsyncActionCreator<IPostDraft> = ({ _id, slug, ...data }: IPostDraft): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>): Promise<void> => {
+    const service = app.service('api/posts')
+    const changes = slug && slug !== _id ? { ...data, _id: slug } : data
+
+    await dispatch(adminSaveStart())
+
+    try {
+      const result: IPost = await (_id ? service.patch(_id, changes) : service.create(changes))
+
+      if (_id && result._id !== _id) {
+        await dispatch(postsService.actions.deleteSuccess([_id]))
+      }
+
+      await dispatch(postsService.actions.fetchSuccess([result]))
+      await dispatch(adminSaveSuccess(result._id))
+
+      if (result._id !== _id) {
+        await dispatch(push(adminPostUrlTemplate(result._id)))
+      }
+    } catch (error) {
+      logError(error)
+      await dispatch(adminSaveError(error))
+    }
+  }
+
+savePost.actionName = 'savePost'
+savePost.onlyClient = true
+
+export const getAdminTags: IAsyncActionCreator<void> = (): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>): Promise<void> => {
+    await dispatch(tagsService.actions.fetchStart())
+
+    try {
+      const tags: ITag[] = await app.service('api/tags').find()
+
+      await dispatch(tagsService.actions.fetchSuccess(tags))
+    } catch (error) {
+      logError(error)
+      await dispatch(tagsService.actions.fetchError(error))
+    }
+  }
+
+getAdminTags.actionName = 'getAdminTags'
+getAdminTags.onlyClient = true
+
+// Any change may move posts between tags, so counters of all tags are fetched again afterwards
+const changeTags = (request: ITagsRequest, removed: string[] = []): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>): Promise<void> => {
+    await dispatch(adminSaveStart())
+
+    try {
+      await request(app.service('api/tags'))
+      await dispatch(adminSaveSuccess())
+      await dispatch(tagsService.actions.deleteSuccess(removed))
+      await dispatch(getAdminTags())
+    } catch (error) {
+      logError(error)
+      await dispatch(adminSaveError(error))
+    }
+  }
+
+export const createTag: IAsyncActionCreator<Partial<ITag>> = ({ title, taxonomy }: Partial<ITag>): IAsyncAction =>
+  changeTags((tags: any): Promise<ITag> => tags.create({ title, taxonomy }))
+
+export const renameTag: IAsyncActionCreator<Partial<ITag>> = ({ _id, title }: Partial<ITag>): IAsyncAction =>
+  changeTags((tags: any): Promise<ITag> => tags.patch(_id, { title }))
+
+export const mergeTags: IAsyncActionCreator<ITagsMerge> = ({ source, target }: ITagsMerge): IAsyncAction =>
+  changeTags(
+    (): Promise<ITag> => app.service('api/tags/merge').create({ source, target }),
+    Array.isArray(source) ? source : [source]
+  )
+
+export const removeTag: IAsyncActionCreator<string> = (_id: string): IAsyncAction =>
+  changeTags((tags: any): Promise<ITag> => tags.remove(_id), [_id])
+
+export const getAdminComments: IAsyncActionCreator<void> = (): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>): Promise<void> => {
+    await dispatch(commentsService.actions.fetchStart())
+
+    try {
+      const comments: IComment[] = await app.service('api/comments').find({ query: { status: 'pending' } })
+
+      await dispatch(commentsService.actions.fetchSuccess(comments))
+    } catch (error) {
+      logError(error)
+      await dispatch(commentsService.actions.fetchError(error))
+    }
+  }
+
+getAdminComments.actionName = 'getAdminComments'
+getAdminComments.onlyClient = true
+
+export const moderateComment: IAsyncActionCreator<Partial<IComment>> =
+  ({ _id, status }: Partial<IComment>): IAsyncAction =>
+    async (dispatch: Dispatch<IStore>): Promise<void> => {
+      await dispatch(adminSaveStart())
+
+      try {
+        const result: IComment = await app.service('api/comments').patch(_id, { status })
+
+        await dispatch(commentsService.actions.fetchSuccess([result]))
+        await dispatch(adminSaveSuccess(_id))
+      } catch (error) {
+        logError(error)
+        await dispatch(adminSaveError(error))
+      }
+    }
+
+export const removeComment: IAsyncActionCreator<string> = (_id: string): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>): Promise<void> => {
+    await dispatch(adminSaveStart())
+
+    try {
+      await app.service('api/comments').remove(_id)
+      await dispatch(commentsService.actions.deleteSuccess([_id]))
+      await dispatch(adminSaveSuccess(_id))
+    } catch (error) {
+      logError(error)
+      await dispatch(adminSaveError(error))
+    }
+  }
+
+export const getAdminRedirects: IAsyncActionCreator<void> = (): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>): Promise<void> => {
+    await dispatch(redirectsService.actions.fetchStart())
+
+    try {
+      const redirects: IRedirect[] = await app.service('api/redirects').find()
+
+      await dispatch(redirectsService.actions.fetchSuccess(redirects))
+    } catch (error) {
+      logError(error)
+      await dispatch(redirectsService.actions.fetchError(error))
+    }
+  }
+
+getAdminRedirects.actionName = 'getAdminRedirects'
+getAdminRedirects.onlyClient = true
+
+export const createRedirect: IAsyncActionCreator<Partial<IRedirect>> =
+  ({ source, target, status }: Partial<IRedirect>): IAsyncAction =>
+    async (dispatch: Dispatch<IStore>): Promise<void> => {
+      await dispatch(adminSaveStart())
+
+      try {
+        const result: IRedirect = await app.service('api/redirects').create({ source, target, status })
+
+        await dispatch(redirectsService.actions.fetchSuccess([result]))
+        await dispatch(adminSaveSuccess(result._id))
+      } catch (error) {
+        logError(error)
+        await dispatch(adminSaveError(error))
+      }
+    }
+
+export const removeRedirect: IAsyncActionCreator<string> = (_id: string): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>): Promise<void> => {
+    await dispatch(adminSaveStart())
+
+    try {
+      await app.service('api/redirects').remove(_id)
+      await dispatch(redirectsService.actions.deleteSuccess([_id]))
+      await dispatch(adminSaveSuccess(_id))
+    } catch (error) {
+      logError(error)
+      await dispatch(adminSaveError(error))
+    }
+  }
+
+export const getAdminUploads: IAsyncActionCreator<void> = (): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>): Promise<void> => {
+    await dispatch(uploadsService.actions.fetchStart())
+
+    try {
+      const uploads: IUpload[] = await app.service('api/uploads').find()
+
+      await dispatch(uploadsService.actions.fetchSuccess(uploads))
+    } catch (error) {
+      logError(error)
+      await dispatch(uploadsService.actions.fetchError(error))
+    }
+  }
+
+getAdminUploads.actionName = 'getAdminUploads'
+getAdminUploads.onlyClient = true
+
+/**
+ * Files are sent as multipart form data, the feathers client can only send JSON,
+ * so the request is made directly with the token it keeps
+ */
+export const uploadFile: IAsyncActionCreator<IUploadRequest> = ({ file, alt }: IUploadRequest): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>): Promise<void> => {
+    const body = new FormData()
+
+    body.append('file', file)
+
+    if (alt) {
+      body.append('alt', alt)
+    }
+
+    await dispatch(adminSaveStart())
+
+    try {
+      const response = await fetch(`${host}/api/uploads`, {
+        method: 'POST',
+        headers: { Authorization: app.get('token') },
+        body
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw result
+      }
+
+      await dispatch(uploadsService.actions.fetchSuccess([result]))
+      await dispatch(adminSaveSuccess(result._id))
+    } catch (error) {
+      logError(error)
+      await dispatch(adminSaveError(error))
+    }
+  }
+
+export const removeUpload: IAsyncActionCreator<string> = (_id: string): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>): Promise<void> => {
+    await dispatch(adminSaveStart())
+
+    try {
+      await app.service('api/uploads').remove(_id)
+      await dispatch(uploadsService.actions.deleteSuccess([_id]))
+      await dispatch(adminSaveSuccess(_id))
+    } catch (error) {
+      logError(error)
+      await dispatch(adminSaveError(error))
+    }
+  }
+
+// Options are created on the first save, until then the defaults are used
+const saveOption = async (options: any, _id: string, value: any): Promise<IOption> => {
+  try {
+    return await options.patch(_id, { value })
+  } catch (error) {
+    if (error.name !== 'NotFound') {
+      throw error
+    }
+
+    return options.create({ _id, value })
+  }
+}
+
+export const saveSettings: IAsyncActionCreator<ISettings> = (settings: ISettings): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>): Promise<void> => {
+    const options = app.service('api/options')
+
+    await dispatch(adminSaveStart())
+
+    try {
+      await Promise.all(Object.keys(settingsOptions).map(
+        (key: string): Promise<IOption> => saveOption(options, settingsOptions[key], settings[key])
+      ))
+      await dispatch(adminSaveSuccess())
+      await dispatch(settingsFetchSuccess(settings))
+    } catch (error) {
+      logError(error)
+      await dispatch(adminSaveError(error))
+    }
+  }
+
+saveSettings.actionName = 'saveSettings'
+saveSettings.onlyClient = true
+
+export const inviteUser: IAsyncActionCreator<IUserInvite> = (invite: IUserInvite): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>): Promise<void> => {
+    await dispatch(adminSaveStart())
+
+    try {
+      const { email }: IUserInvite = await app.service('api/users/invites').create(invite)
+
+      await dispatch(adminMailSent(email))
+    } catch (error) {
+      logError(error)
+      await dispatch(adminSaveError(error))
+    }
+  }
+
+// Invitees and those who have just reset their passwords are logged in right away
+const loginAfterSave = async (dispatch: Dispatch<IStore>, email: string, password: string): Promise<void> => {
+  await dispatch(adminSaveSuccess())
+  await dispatch(userLogin({ email, password }))
+  await dispatch(push(adminUrl))
+}
+
+export const registerUser: IAsyncActionCreator<IRegistration> = (registration: IRegistration): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>): Promise<void> => {
+    await dispatch(adminSaveStart())
+
+    try {
+      const { email }: IUserData = await app.service('api/users/register').create(registration)
+
+      await loginAfterSave(dispatch, email, registration.password)
+    } catch (error) {
+      logError(error)
+      await dispatch(adminSaveError(error))
+    }
+  }
+
+export const requestPasswordReset: IAsyncActionCreator<IPasswordResetRequest> =
+  (request: IPasswordResetRequest): IAsyncAction =>
+    async (dispatch: Dispatch<IStore>): Promise<void> => {
+      await dispatch(adminSaveStart())
+
+      try {
+        const { email }: IPasswordResetRequest = await app.service('api/users/reset').create(request)
+
+        await dispatch(adminMailSent(email))
+      } catch (error) {
+        logError(error)
+        await dispatch(adminSaveError(error))
+      }
+    }
+
+export const resetPassword: IAsyncActionCreator<IPasswordReset & Pick<IRegistration, 'token'>> =
+  ({ token, password }: IPasswordReset & Pick<IRegistration, 'token'>): IAsyncAction =>
+    async (dispatch: Dispatch<IStore>): Promise<void> => {
+      await dispatch(adminSaveStart())
+
+      try {
+        const { email }: IPasswordResetRequest = await app.service('api/users/reset').update(token, { password })
+
+        await loginAfterSave(dispatch, email, password)
+      } catch (error) {
+        logError(error)
+        await dispatch(adminSaveError(error))
+      }
+    }
@@ -0,0 +1,24 @@
+export { adminReducer } from './reducer'
+export {
+  createRedirect,
+  createTag,
+  getAdminComments,
+  getAdminPosts,
+  getAdminRedirects,
+  getAdminTags,
+  getAdminUploads,
+  inviteUser,
+  mergeTags,
+  moderateComment,
+  registerUser,
+  removeComment,
+  removeRedirect,
+  removeTag,
+  removeUpload,
+  renameTag,
+  requestPasswordReset,
+  resetPassword,
+  savePost,
+  saveSettings,
+  uploadFile
+} from './actions'
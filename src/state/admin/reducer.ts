@@ -0,0 +1,91 @@
+import { validationErrors } from 'utils'
+import {
+  ADMIN_MAIL_SENT,
+  ADMIN_POSTS_ERROR,
+  ADMIN_POSTS_START,
+  ADMIN_POSTS_SUCCESS,
+  ADMIN_SAVE_ERROR,
+  ADMIN_SAVE_START,
+  ADMIN_SAVE_SUCCESS
+} from './types'
+
+// Models
+import { IAdmin } from 'models/admin'
+import { IAction } from 'models/flux'
+
+const initialState: IAdmin = {
+  isFetching: false,
+  isSaving: false,
+  error: false,
+  postIds: [],
+  fieldErrors: {}
+}
+
+export const adminReducer = (state: IAdmin = initialState, action: IAction): IAdmin => {
+  switch (action.type) {
+    case ADMIN_POSTS_START:
+      return {
+        ...state,
+        isFetching: true,
+        error: false
+      }
+
+    case ADMIN_POSTS_SUCCESS:
+      return {
+        ...state,
+        isFetching: false,
+        postIds: action.payload
+      }
+
+    case ADMIN_POSTS_ERROR:
+      return {
+        ...state,
+        isFetching: false,
+        error: true,
+        errorMessage: action.payload
+      }
+
+    case ADMIN_SAVE_START:
+      return {
+        ...state,
+        isSaving: true,
+        error: false,
+        fieldErrors: {},
+        sentTo: undefined
+      }
+
+    case ADMIN_SAVE_SUCCESS:
+      return {
+        ...state,
+        isSaving: false
+      }
+
+    case ADMIN_MAIL_SENT:
+      return {
+        ...state,
+        isSaving: false,
+        sentTo: action.payload
+      }
+
+    case ADMIN_SAVE_ERROR:
+      return {
+        ...state,
+        isSaving: false,
+        error: true,
+        errorMessage: action.payload,
+        fieldErrors: validationErrors(action.payload)
+      }
+
+    // Errors belong to the form they were shown in
+    case '@@router/LOCATION_CHANGE':
+      return {
+        ...state,
+        error: false,
+        fieldErrors: {},
+        sentTo: undefined
+      }
+
+    default:
+      return state
+  }
+}
@@ -0,0 +1,7 @@
+export const ADMIN_POSTS_START = 'admin/POSTS_START'
+export const ADMIN_POSTS_SUCCESS = 'admin/POSTS_SUCCESS'
+export const ADMIN_POSTS_ERROR = 'admin/POSTS_ERROR'
+export const ADMIN_SAVE_START = 'admin/SAVE_START'
+export const ADMIN_SAVE_SUCCESS = 'admin/SAVE_SUCCESS'
+export const ADMIN_SAVE_ERROR = 'admin/SAVE_ERROR'
+export const ADMIN_MAIL_SENT = 'admin/MAIL_SENT'
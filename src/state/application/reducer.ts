@@ -3,30 +3,28 @@ import { pageRegExp } from 'utils'
 import { IApplication } from 'models/appication'
 import { IAction } from 'models/flux'
 
+// Site title, description and fonts come from settings, the canonical url from the location
 const initialState: IApplication = {
-  title: 'Пингвин Рыба Есть',
-  titleTemplate: '%s | Пингвин Рыба Есть',
   head: {
     meta: [
       { charset: 'utf-8' },
       { 'http-equiv': 'x-ua-compatible', 'content': 'ie=edge' },
-      { name: 'viewport', content: 'width=device-width, initial-scale=1' },
-      { name: 'description', content: 'Пингвин Рыба Есть' }
+      { name: 'viewport', content: 'width=device-width, initial-scale=1' }
     ],
     link: [
       {
-        rel: 'canonical',
-        href: 'https://korolev.dk/'
+        rel: 'alternate',
+        type: 'application/rss+xml',
+        href: '/feed/'
       },
       {
-        type: 'text/css',
-        href: '//fonts.googleapis.com/css?family=Comfortaa:700&subset=latin,cyrillic',
-        rel: 'stylesheet'
+        rel: 'alternate',
+        type: 'application/atom+xml',
+        href: '/feed/atom/'
       },
       {
-        type: 'text/css',
-        href: '//fonts.googleapis.com/css?family=Open+Sans:400italic,400,700&subset=cyrillic-ext,latin-ext',
-        rel: 'stylesheet'
+        rel: 'webmention',
+        href: '/api/webmentions'
       }
     ]
   },
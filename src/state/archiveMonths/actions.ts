@@ -0,0 +1,31 @@
+import * as debug from 'debug'
+import { app } from 'services'
+import { createAction } from 'utils'
+import { ARCHIVE_MONTHS_SET } from './types'
+
+// Models
+import { IAsyncAction, IAsyncActionCreator } from 'models/flux'
+import { IArchiveMonth } from 'models/posts'
+import { IStore } from 'models/store'
+import { Dispatch } from 'redux'
+
+const logError = debug('k:archiveMonths:error')
+
+export const archiveMonthsSet = createAction<IArchiveMonth[]>(ARCHIVE_MONTHS_SET)
+
+/**
+ * The widget is an extra, so a failure just leaves it out
+ */
+export const getArchiveMonths: IAsyncActionCreator<void> = (): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>): Promise<void> => {
+    try {
+      const months: IArchiveMonth[] = await app.service('api/posts/months').find()
+
+      await dispatch(archiveMonthsSet(months))
+    } catch (error) {
+      logError(error)
+    }
+  }
+
+getArchiveMonths.actionName = 'getArchiveMonths'
+getArchiveMonths.onlyServer = true
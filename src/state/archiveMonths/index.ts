@@ -0,0 +1,2 @@
+export { archiveMonthsReducer } from './reducer'
+export { archiveMonthsSet, getArchiveMonths } from './actions'
@@ -0,0 +1,8 @@
+import { ARCHIVE_MONTHS_SET } from './types'
+
+// Models
+import { IAction } from 'models/flux'
+import { IArchiveMonth } from 'models/posts'
+
+export const archiveMonthsReducer = (state: IArchiveMonth[] = [], action: IAction): IArchiveMonth[] =>
+  action.type === ARCHIVE_MONTHS_SET ? action.payload : state
@@ -0,0 +1 @@
+export const ARCHIVE_MONTHS_SET = 'archiveMonths/SET'
@@ -0,0 +1,9 @@
+import { authorsService } from './crud'
+
+/* Async action creator */
+const getAuthors = authorsService.find
+getAuthors.onlyServer = true
+
+export {
+  getAuthors
+}
@@ -0,0 +1,13 @@
+import { crud } from 'utils'
+
+// Models
+import { IAuthor } from 'models/user'
+
+// Visitors get public profiles from the users service
+const authorsService = crud<IAuthor>({
+  serviceName: 'users'
+})
+
+export {
+  authorsService
+}
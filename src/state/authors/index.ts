@@ -0,0 +1,2 @@
+export { authorsService } from './crud'
+export { getAuthors } from './actions'
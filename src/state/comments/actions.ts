@@ -0,0 +1,47 @@
+import * as debug from 'debug'
+import { app } from 'services'
+import { createAction } from 'utils'
+import { commentsService } from './crud'
+import { COMMENTS_SUBMIT_ERROR, COMMENTS_SUBMIT_START, COMMENTS_SUBMIT_SUCCESS } from './types'
+
+// Models
+import { IComment, ICommentDraft } from 'models/comments'
+import { IAsyncAction, IAsyncActionCreator } from 'models/flux'
+import { IStore } from 'models/store'
+import { Dispatch } from 'redux'
+
+const logError = debug('k:comments:error')
+
+const commentsSubmitStart = createAction(COMMENTS_SUBMIT_START)
+const commentsSubmitSuccess = createAction(COMMENTS_SUBMIT_SUCCESS)
+const commentsSubmitError = createAction(COMMENTS_SUBMIT_ERROR)
+
+/* Async action creators */
+export const getComments: IAsyncActionCreator<string> = (postId: string): IAsyncAction =>
+  commentsService.find({ query: { postId } })
+
+getComments.actionName = 'getComments'
+
+/**
+ * Comments of visitors are held for moderation, so only approved ones get into the list right away
+ */
+export const submitComment: IAsyncActionCreator<ICommentDraft> = (draft: ICommentDraft): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>): Promise<void> => {
+    await dispatch(commentsSubmitStart())
+
+    try {
+      const result: IComment = await app.service('api/comments').create(draft)
+
+      if (result.status === 'approved') {
+        await dispatch(commentsService.actions.fetchSuccess([result]))
+      }
+
+      await dispatch(commentsSubmitSuccess(result._id))
+    } catch (error) {
+      logError(error)
+      await dispatch(commentsSubmitError(error))
+    }
+  }
+
+submitComment.actionName = 'submitComment'
+submitComment.onlyClient = true
@@ -0,0 +1,12 @@
+import { crud } from 'utils'
+
+// Models
+import { IComment } from 'models/comments'
+
+const commentsService = crud<IComment>({
+  serviceName: 'comments'
+})
+
+export {
+  commentsService
+}
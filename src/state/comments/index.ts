@@ -0,0 +1,3 @@
+export { commentsReducer } from './reducer'
+export { commentsService } from './crud'
+export { getComments, submitComment } from './actions'
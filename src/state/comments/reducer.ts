@@ -0,0 +1,57 @@
+import { validationErrors } from 'utils'
+import { commentsService } from './crud'
+import { COMMENTS_SUBMIT_ERROR, COMMENTS_SUBMIT_START, COMMENTS_SUBMIT_SUCCESS } from './types'
+
+// Models
+import { IComments } from 'models/comments'
+import { IAction } from 'models/flux'
+
+const initialState: IComments = {
+  isFetching: false,
+  error: false,
+  itemsById: {},
+  isSubmitting: false,
+  isSubmitted: false,
+  fieldErrors: {}
+}
+
+export const commentsReducer = (state: IComments = initialState, action: IAction): IComments => {
+  switch (action.type) {
+    case COMMENTS_SUBMIT_START:
+      return {
+        ...state,
+        isSubmitting: true,
+        isSubmitted: false,
+        error: false,
+        fieldErrors: {}
+      }
+
+    case COMMENTS_SUBMIT_SUCCESS:
+      return {
+        ...state,
+        isSubmitting: false,
+        isSubmitted: true
+      }
+
+    case COMMENTS_SUBMIT_ERROR:
+      return {
+        ...state,
+        isSubmitting: false,
+        error: true,
+        errorMessage: action.payload,
+        fieldErrors: validationErrors(action.payload)
+      }
+
+    // The form starts over on every page
+    case '@@router/LOCATION_CHANGE':
+      return {
+        ...state,
+        isSubmitted: false,
+        error: false,
+        fieldErrors: {}
+      }
+
+    default:
+      return commentsService.reducer(state, action) as IComments
+  }
+}
@@ -0,0 +1,3 @@
+export const COMMENTS_SUBMIT_START = 'comments/SUBMIT_START'
+export const COMMENTS_SUBMIT_SUCCESS = 'comments/SUBMIT_SUCCESS'
+export const COMMENTS_SUBMIT_ERROR = 'comments/SUBMIT_ERROR'
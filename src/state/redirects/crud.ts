@@ -0,0 +1,12 @@
+import { crud } from 'utils'
+
+// Models
+import { IRedirect } from 'models/redirects'
+
+const redirectsService = crud<IRedirect>({
+  serviceName: 'redirects'
+})
+
+export {
+  redirectsService
+}
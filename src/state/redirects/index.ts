@@ -0,0 +1 @@
+export { redirectsService } from './crud'
@@ -3,25 +3,47 @@ import { Reducer, combineReducers } from 'redux'
 import { reducer as reduxConnectReducer } from 'redux-connect'
 
 // Reducers
+import { adjacentReducer } from './adjacent'
+import { adminReducer } from './admin'
 import { applicationReducer } from './application'
+import { archiveMonthsReducer } from './archiveMonths'
+import { authorsService } from './authors'
+import { commentsReducer } from './comments'
 import { headlinesReducer } from './headlines'
 import { pagesService } from './pages'
 import { paginationReducer } from './pagination'
 import { postsService } from './posts'
+import { redirectsService } from './redirects'
+import { relatedReducer } from './related'
+import { searchReducer } from './search'
+import { settingsReducer } from './settings'
 import { tagsService } from './tags'
+import { uploadsService } from './uploads'
 import { userReducer } from './user'
+import { webmentionsService } from './webmentions'
 
 // Types
 import { IStore } from 'models/store'
 
 const rootReducer: Reducer<IStore> = combineReducers<IStore>({
+  adjacent: adjacentReducer,
+  admin: adminReducer,
   application: applicationReducer,
+  archiveMonths: archiveMonthsReducer,
+  authors: authorsService.reducer,
+  comments: commentsReducer,
   headlines: headlinesReducer,
   pages: pagesService.reducer,
   pagination: paginationReducer,
   posts: postsService.reducer,
+  redirects: redirectsService.reducer,
+  related: relatedReducer,
+  search: searchReducer,
+  settings: settingsReducer,
   tags: tagsService.reducer,
+  uploads: uploadsService.reducer,
   user: userReducer,
+  webmentions: webmentionsService.reducer,
 
   routing: routerReducer,
   reduxAsyncConnect: reduxConnectReducer
@@ -0,0 +1,37 @@
+import * as debug from 'debug'
+import { app } from 'services'
+import { postsService } from 'state/posts'
+import { createAction } from 'utils'
+import { prop } from 'utils/ramda'
+import { RELATED_UPDATE } from './types'
+
+// Models
+import { IAsyncAction, IAsyncActionCreator } from 'models/flux'
+import { IPost, IRelatedUpdateOptions } from 'models/posts'
+import { IGetState, IStore } from 'models/store'
+import { Dispatch } from 'redux'
+
+const logError = debug('k:related:error')
+
+export const relatedUpdate = createAction<IRelatedUpdateOptions>(RELATED_UPDATE)
+
+/**
+ * The block is an extra, so a failure just leaves it out
+ */
+export const getRelatedPosts: IAsyncActionCreator<string> = (postId: string): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>, getState: IGetState): Promise<void> => {
+    if (getState().related[postId]) {
+      return
+    }
+
+    try {
+      const posts: IPost[] = await app.service('api/posts').find({ query: { relatedTo: postId } })
+
+      await dispatch(postsService.actions.fetchSuccess(posts))
+      await dispatch(relatedUpdate({ postId, itemsList: posts.map(prop('_id')) }))
+    } catch (error) {
+      logError(error)
+    }
+  }
+
+getRelatedPosts.actionName = 'getRelatedPosts'
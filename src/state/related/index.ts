@@ -0,0 +1,2 @@
+export { relatedReducer } from './reducer'
+export { getRelatedPosts, relatedUpdate } from './actions'
@@ -0,0 +1,18 @@
+import { RELATED_UPDATE } from './types'
+
+// Models
+import { IAction } from 'models/flux'
+import { IRelatedPosts } from 'models/posts'
+
+export const relatedReducer = (state: IRelatedPosts = {}, action: IAction): IRelatedPosts => {
+  if (action.type === RELATED_UPDATE) {
+    const { postId, itemsList } = action.payload
+
+    return {
+      ...state,
+      [postId]: itemsList
+    }
+  }
+
+  return state
+}
@@ -0,0 +1 @@
+export const RELATED_UPDATE = 'related/UPDATE'
@@ -0,0 +1,68 @@
+import * as debug from 'debug'
+import { app } from 'services'
+import { paginationUpdate } from 'state/pagination'
+import { pagesService } from 'state/pages'
+import { postsService } from 'state/posts'
+import { createAction } from 'utils'
+import { path, prop, propEq } from 'utils/ramda'
+import { SEARCH_ERROR, SEARCH_START, SEARCH_SUCCESS } from './types'
+
+// Models
+import { IAsyncAction, IAsyncActionCreator } from 'models/flux'
+import { IPage } from 'models/pages'
+import { IPaginatedResult, IPaginationQuery } from 'models/pagination'
+import { IPost } from 'models/posts'
+import { ISearchResult } from 'models/search'
+import { IGetState, IStore } from 'models/store'
+import { Dispatch } from 'redux'
+
+const logError = debug('k:search:error')
+
+const searchStart = createAction(SEARCH_START)
+const searchSuccess = createAction(SEARCH_SUCCESS)
+const searchError = createAction(SEARCH_ERROR)
+
+export interface ISearchOptions {
+  query: string
+  pagination: IPaginationQuery
+}
+
+export const search: IAsyncActionCreator<ISearchOptions> = ({ query, pagination }: ISearchOptions): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>, getState: IGetState): Promise<void> => {
+    const { key, pageNumber } = pagination
+
+    if (!query || path(['pagination', key, pageNumber], getState())) {
+      return
+    }
+
+    await dispatch(searchStart())
+
+    try {
+      const { data, total, limit }: IPaginatedResult<ISearchResult> = await app.service('api/search').find({
+        query: {
+          q: query,
+          pageNumber
+        }
+      })
+
+      // Found items go to their own slices, so Post can render them as usual
+      await dispatch(postsService.actions.fetchSuccess(data.filter(propEq('type', 'post')) as IPost[]))
+      await dispatch(pagesService.actions.fetchSuccess(data.filter(propEq('type', 'page')) as IPage[]))
+      await dispatch(paginationUpdate({
+        key,
+        totalPages: Math.ceil(total / limit),
+        itemsList: data.map(prop('_id')),
+        pageNumber
+      }))
+      await dispatch(searchSuccess({
+        query,
+        total,
+        items: data
+      }))
+    } catch (error) {
+      logError(error)
+      await dispatch(searchError(error))
+    }
+  }
+
+search.actionName = 'search'
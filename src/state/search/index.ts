@@ -0,0 +1,2 @@
+export { searchReducer } from './reducer'
+export { search } from './actions'
@@ -0,0 +1,56 @@
+import { SEARCH_ERROR, SEARCH_START, SEARCH_SUCCESS } from './types'
+
+// Models
+import { IAction } from 'models/flux'
+import { ISearch, ISearchResult } from 'models/search'
+
+const initialState: ISearch = {
+  isFetching: false,
+  error: false,
+  totals: {},
+  typesById: {}
+}
+
+const mapTypes = (items: ISearchResult[]): ISearch['typesById'] => items.reduce(
+  (result: ISearch['typesById'], { _id, type }: ISearchResult) => ({
+    ...result,
+    [_id]: type
+  }),
+  {}
+)
+
+export const searchReducer = (state: ISearch = initialState, action: IAction): ISearch => {
+  switch (action.type) {
+    case SEARCH_START:
+      return {
+        ...state,
+        isFetching: true,
+        error: false
+      }
+
+    case SEARCH_SUCCESS:
+      return {
+        ...state,
+        isFetching: false,
+        totals: {
+          ...state.totals,
+          [action.payload.query]: action.payload.total
+        },
+        typesById: {
+          ...state.typesById,
+          ...mapTypes(action.payload.items)
+        }
+      }
+
+    case SEARCH_ERROR:
+      return {
+        ...state,
+        isFetching: false,
+        error: true,
+        errorMessage: action.payload
+      }
+
+    default:
+      return state
+  }
+}
@@ -0,0 +1,3 @@
+export const SEARCH_START = 'search/START'
+export const SEARCH_SUCCESS = 'search/SUCCESS'
+export const SEARCH_ERROR = 'search/ERROR'
@@ -0,0 +1,40 @@
+import * as debug from 'debug'
+import { app } from 'services'
+import { createAction, settingsFromOptions, settingsOptionIds } from 'utils'
+import { SETTINGS_FETCH_ERROR, SETTINGS_FETCH_START, SETTINGS_FETCH_SUCCESS } from './types'
+
+// Models
+import { IAsyncAction, IAsyncActionCreator } from 'models/flux'
+import { IOption } from 'models/options'
+import { IStore } from 'models/store'
+import { Dispatch } from 'redux'
+
+const logError = debug('k:settings:error')
+
+const settingsFetchStart = createAction(SETTINGS_FETCH_START)
+const settingsFetchError = createAction(SETTINGS_FETCH_ERROR)
+
+export const settingsFetchSuccess = createAction(SETTINGS_FETCH_SUCCESS)
+
+export const getSettings: IAsyncActionCreator<void> = (): IAsyncAction =>
+  async (dispatch: Dispatch<IStore>): Promise<void> => {
+    await dispatch(settingsFetchStart())
+
+    try {
+      const options: IOption[] = await app.service('api/options').find({
+        query: {
+          _id: {
+            $in: settingsOptionIds
+          }
+        }
+      })
+
+      await dispatch(settingsFetchSuccess(settingsFromOptions(options)))
+    } catch (error) {
+      logError(error)
+      await dispatch(settingsFetchError(error))
+    }
+  }
+
+getSettings.actionName = 'getSettings'
+getSettings.onlyServer = true
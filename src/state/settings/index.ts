@@ -0,0 +1,2 @@
+export { settingsReducer } from './reducer'
+export { getSettings, settingsFetchSuccess } from './actions'
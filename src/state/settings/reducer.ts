@@ -0,0 +1,41 @@
+import { defaultSettings } from 'utils'
+import { SETTINGS_FETCH_ERROR, SETTINGS_FETCH_START, SETTINGS_FETCH_SUCCESS } from './types'
+
+// Models
+import { IAction } from 'models/flux'
+import { ISettingsState } from 'models/settings'
+
+const initialState: ISettingsState = {
+  ...defaultSettings,
+  isFetching: false,
+  error: false
+}
+
+export const settingsReducer = (state: ISettingsState = initialState, action: IAction): ISettingsState => {
+  switch (action.type) {
+    case SETTINGS_FETCH_START:
+      return {
+        ...state,
+        isFetching: true,
+        error: false
+      }
+
+    case SETTINGS_FETCH_SUCCESS:
+      return {
+        ...state,
+        ...action.payload,
+        isFetching: false
+      }
+
+    case SETTINGS_FETCH_ERROR:
+      return {
+        ...state,
+        isFetching: false,
+        error: true,
+        errorMessage: action.payload
+      }
+
+    default:
+      return state
+  }
+}
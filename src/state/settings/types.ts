@@ -0,0 +1,3 @@
+export const SETTINGS_FETCH_START = 'settings/FETCH_START'
+export const SETTINGS_FETCH_SUCCESS = 'settings/FETCH_SUCCESS'
+export const SETTINGS_FETCH_ERROR = 'settings/FETCH_ERROR'
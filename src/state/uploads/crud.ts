@@ -0,0 +1,12 @@
+import { crud } from 'utils'
+
+// Models
+import { IUpload } from 'models/uploads'
+
+const uploadsService = crud<IUpload>({
+  serviceName: 'uploads'
+})
+
+export {
+  uploadsService
+}
@@ -0,0 +1 @@
+export { uploadsService } from './crud'
@@ -35,7 +35,8 @@ export const userReducer = (state: IUser = initialState, action: IAction): IUser
         ...state,
         isFetching: false,
         isLoggedIn: true,
-        ...pickUserdata(action.payload)
+        error: false,
+        userData: pickUserdata(action.payload)
       }
 
     case USER_LOGIN_ERROR:
@@ -43,7 +44,7 @@ export const userReducer = (state: IUser = initialState, action: IAction): IUser
         ...state,
         isFetching: false,
         isLoggedIn: false,
-        level: UserRoles.anonymous,
+        userData: initialState.userData,
         error: true,
         errorMessage: action.payload
       }
@@ -0,0 +1,10 @@
+import { webmentionsService } from './crud'
+
+// Models
+import { IAsyncAction, IAsyncActionCreator } from 'models/flux'
+
+/* Async action creators */
+export const getWebmentions: IAsyncActionCreator<string> = (postId: string): IAsyncAction =>
+  webmentionsService.find({ query: { postId } })
+
+getWebmentions.actionName = 'getWebmentions'
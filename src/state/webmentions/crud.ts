@@ -0,0 +1,12 @@
+import { crud } from 'utils'
+
+// Models
+import { IWebmention } from 'models/webmentions'
+
+const webmentionsService = crud<IWebmention>({
+  serviceName: 'webmentions'
+})
+
+export {
+  webmentionsService
+}
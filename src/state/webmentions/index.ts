@@ -0,0 +1,2 @@
+export { webmentionsService } from './crud'
+export { getWebmentions } from './actions'
@@ -0,0 +1,3 @@
+const appConfig = require('../../config/main')
+
+export const absoluteUrl = (url: string): string => appConfig.siteUrl + url
@@ -0,0 +1,32 @@
+// Models
+import { IQuery } from 'models/crud'
+import { IRouteParams } from 'models/routes'
+
+type IArchiveParams = Pick<IRouteParams, 'authorId' | 'tagId' | 'year' | 'month'>
+
+/**
+ * Posts query of an archive route: posts of an author, of a tag or of a year or month of the date archives
+ */
+export const archiveQuery = ({ authorId, tagId, year, month }: IArchiveParams): IQuery => {
+  const query: IQuery = {}
+
+  if (authorId) {
+    query.author = authorId
+  }
+
+  if (tagId) {
+    query.tags = {
+      $elemMatch: tagId
+    }
+  }
+
+  if (year) {
+    query.year = year
+  }
+
+  if (month) {
+    query.month = month
+  }
+
+  return query
+}
@@ -0,0 +1,22 @@
+import { expect } from 'chai'
+import { absoluteUrl } from './absoluteUrl'
+import { canonicalUrl } from './canonicalUrl'
+
+describe('canonicalUrl', () => {
+  const location = (pathname: string, basepath: string): any => ({ pathname, basepath, query: {}, search: '' })
+
+  it('prefixes the path with the site url', () => {
+    expect(canonicalUrl(location('/post/purge/', '/post/purge/'))).to.equal(absoluteUrl('/post/purge/'))
+    expect(canonicalUrl(location('/', '/'))).to.equal(absoluteUrl('/'))
+  })
+
+  it('keeps the page number of the following pages', () => {
+    expect(canonicalUrl(location('/archive/code/page/3/', '/archive/code/')))
+      .to.equal(absoluteUrl('/archive/code/page/3/'))
+  })
+
+  it('points the first page to the list itself', () => {
+    expect(canonicalUrl(location('/archive/code/page/1/', '/archive/code/'))).to.equal(absoluteUrl('/archive/code/'))
+    expect(canonicalUrl(location('/page/', '/'))).to.equal(absoluteUrl('/'))
+  })
+})
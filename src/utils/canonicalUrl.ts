@@ -0,0 +1,18 @@
+import { absoluteUrl } from './absoluteUrl'
+import { pageRegExp } from './urlTemplates'
+
+// Models
+import { ILocation } from 'models/appication'
+
+const pageNumber = (pathname: string): number => {
+  const [page = ''] = pathname.match(pageRegExp) || []
+
+  return parseInt(page.replace(/\D/g, ''), 10) || 1
+}
+
+/**
+ * Canonical address of the current location on the same site url as feeds and sitemap. The first page of a list
+ * is the list itself, the following pages point to themselves and are chained with rel prev/next links
+ */
+export const canonicalUrl = ({ pathname, basepath }: ILocation): string =>
+  absoluteUrl(pageNumber(pathname) > 1 ? pathname : basepath)
@@ -0,0 +1,24 @@
+import { expect } from 'chai'
+import { commentTree } from './commentTree'
+
+describe('commentTree', () => {
+  const comment = (_id: string, _created: string, parentId?: string): any => ({ _id, _created, parentId })
+
+  it('threads replies under their parents, oldest first', () => {
+    const tree = commentTree([
+      comment('reply', '2017-02-23T15:00:00.000Z', 'first'),
+      comment('second', '2017-02-23T14:30:00.000Z'),
+      comment('first', '2017-02-23T14:00:00.000Z')
+    ])
+
+    expect(tree.map(({ comment: { _id } }: any): string => _id)).to.eql(['first', 'second'])
+    expect(tree[0].replies.map(({ comment: { _id } }: any): string => _id)).to.eql(['reply'])
+    expect(tree[1].replies).to.eql([])
+  })
+
+  it('keeps replies to missing comments on the top level', () => {
+    const tree = commentTree([comment('reply', '2017-02-23T15:00:00.000Z', 'spam')])
+
+    expect(tree.map(({ comment: { _id } }: any): string => _id)).to.eql(['reply'])
+  })
+})
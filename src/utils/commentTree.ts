@@ -0,0 +1,32 @@
+// Models
+import { IComment, ICommentNode } from 'models/comments'
+
+const byDate = (a: IComment, b: IComment): number =>
+  new Date(a._created).getTime() - new Date(b._created).getTime()
+
+/**
+ * Threads comments by their parentId, oldest first on every level.
+ * Replies to comments that are not in the list (removed or marked as spam) are kept on the top level
+ */
+export const commentTree = (comments: IComment[]): ICommentNode[] => {
+  const nodes: { [K: string]: ICommentNode } = {}
+  const roots: ICommentNode[] = []
+
+  const sorted = comments.slice().sort(byDate)
+
+  sorted.forEach((comment: IComment): void => {
+    nodes[comment._id] = { comment, replies: [] }
+  })
+
+  sorted.forEach(({ _id, parentId }: IComment): void => {
+    const parent = parentId && nodes[parentId]
+
+    if (parent) {
+      parent.replies.push(nodes[_id])
+    } else {
+      roots.push(nodes[_id])
+    }
+  })
+
+  return roots
+}
@@ -8,23 +8,30 @@ import {
 import { IPost, IPosts } from 'models/posts'
 import { IPage, IPages } from 'models/pages'
 import { ITag } from 'models/tags'
+import { IAuthor } from 'models/user'
 import { IStore } from 'models/store'
 
 const postOrEmpty = (postId: string, posts: IPosts): IPost => pathOr({}, ['itemsById', postId], posts)
 const pageOrEmpty = (pageId: string, pages: IPages): IPage => pathOr({}, ['itemsById', pageId], pages)
 
-export const getPostFromState = ({ posts, tags }: IStore, postId: string): {
+export const getPostFromState = ({ posts, tags, authors }: IStore, postId: string): {
   item: IPost,
-  tags: ITag[]
+  tags: ITag[],
+  author?: IAuthor
 } => {
   const item = postOrEmpty(postId, posts)
 
   return {
     item,
-    tags: map((_id: number) => path(['itemsById', _id], tags), propOr([], 'tags', item))
+    tags: map((_id: string) => path(['itemsById', _id], tags), propOr([], 'tags', item)),
+    author: authors.itemsById[item.author]
   }
 }
 
 export const getPageFromState = ({ pages }: IStore, pageId: string): { item: IPage } => ({
   item: pageOrEmpty(pageId, pages)
 })
+
+// Items saved before page breaks were supported have no pages and are shown whole
+export const getContentPages = ({ _pages, _html, content }: IPost | IPage): string[] =>
+  _pages && _pages.length ? _pages : [_html || content]
@@ -29,6 +29,7 @@ export const crud = <IItem> ({
   const get: IAsyncActionCreator<string> = generateGet<IItem>(serviceName, getService, actions)
 
   return {
+    actions,
     reducer,
     find,
     get
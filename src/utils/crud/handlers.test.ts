@@ -1,5 +1,6 @@
 import { expect } from 'chai'
 import {
+  handleDeleteSuccess,
   handleFetchError,
   handleFetchStart,
   handleFetchSuccess
@@ -193,3 +194,25 @@ describe('handleFetchSuccess', () => {
     expect(handleFetchSuccess(initialState, action)).to.eql(expected)
   })
 })
+
+describe('handleDeleteSuccess', () => {
+  it('removes deleted items', () => {
+    const state = {
+      itemsById: {
+        5: { _id: '5' },
+        6: { _id: '6' }
+      }
+    }
+
+    const action = {
+      type: 'example/DELETE_SUCCESS',
+      payload: ['5']
+    }
+
+    expect(handleDeleteSuccess(state, action)).to.eql({
+      itemsById: {
+        6: { _id: '6' }
+      }
+    })
+  })
+})
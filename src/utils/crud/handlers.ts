@@ -1,4 +1,4 @@
-import { indexBy, prop } from 'utils/ramda'
+import { indexBy, omit, prop } from 'utils/ramda'
 
 import { IAction, ICommonReducerState } from 'models/flux'
 
@@ -42,3 +42,9 @@ export const handleFetchError =
       errorMessage: action.payload
     }
   }
+
+export const handleDeleteSuccess =
+  <IItem> (state: ICommonReducerState<IItem>, action: IAction): ICommonReducerState<IItem> => ({
+    ...state,
+    itemsById: omit(action.payload, state.itemsById)
+  })
@@ -1,4 +1,5 @@
 import {
+  handleDeleteSuccess,
   handleFetchError,
   handleFetchStart,
   handleFetchSuccess
@@ -14,7 +15,8 @@ export const generateReducer =
       const handlers = {
         [types.fetchStart]: handleFetchStart,
         [types.fetchSuccess]: handleFetchSuccess,
-        [types.fetchError]: handleFetchError
+        [types.fetchError]: handleFetchError,
+        [types.deleteSuccess]: handleDeleteSuccess
       }
 
       if (handlers[action.type]) {
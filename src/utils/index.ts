@@ -1,25 +1,64 @@
+export { absoluteUrl } from './absoluteUrl'
+export { canonicalUrl } from './canonicalUrl'
 export { combineHooks } from './combineHooks'
+export { commentTree } from './commentTree'
 export { createAction } from './createAction'
 export { crud } from './crud/crudGenerator'
 export {
+  getContentPages,
   getPostFromState,
   getPageFromState
 } from './contentUtils'
+export { archiveQuery } from './archiveQuery'
+export { isWebUrl } from './isWebUrl'
 export { makeExcerpt } from './makeExcerpt'
+export { periodTitle } from './periodTitle'
+export { postMeta } from './postMeta'
+export { tagCloud } from './tagCloud'
 export { mapItemsToIds } from './mapItemsToIds'
 export {
+  adminCommentsUrl,
+  adminPostUrlTemplate,
+  adminRedirectsUrl,
+  adminSettingsUrl,
+  adminTagsUrl,
+  adminUploadsUrl,
+  adminUrl,
+  adminUsersUrl,
+  atomFeedUrlTemplate,
+  authorUrlTemplate,
+  dateArchiveRegExp,
+  feedUrlTemplate,
+  isTagUrl,
+  monthUrlTemplate,
   paginatedTemplate,
   pageRegExp,
   postUrlTemplate,
   pageUrlTemplate,
-  tagUrlTemplate
+  registerUrl,
+  resetPasswordUrl,
+  searchUrl,
+  searchUrlTemplate,
+  tagUrlTemplate,
+  tokenUrlTemplate,
+  uploadUrlTemplate,
+  uploadsUrl,
+  yearUrlTemplate
 } from './urlTemplates'
 export { randomFromArray } from './randomFromArray'
 export { randomFromMap } from './randomFromMap'
 export { randomFromObject } from './randomFromObject'
 export { toCamelCase } from './toCamelCase'
-export { UserRoles } from './user'
+export { hasRole, rolesFrom, userRoles, UserRoles } from './user'
+export { canEdit, permissions } from './permissions'
 export { replace } from './replace'
+export {
+  defaultSettings,
+  settingsFromOptions,
+  settingsOptionIds,
+  settingsOptions
+} from './settings'
+export { validationErrors } from './validationErrors'
 export { dateFormat } from './dateFormat'
 export {
   scrollTo,
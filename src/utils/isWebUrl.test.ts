@@ -0,0 +1,17 @@
+import { expect } from 'chai'
+import { isWebUrl } from './isWebUrl'
+
+describe('isWebUrl', () => {
+  it('accepts http(s) addresses and site paths', () => {
+    expect(isWebUrl('https://korolev.dk/')).to.equal(true)
+    expect(isWebUrl('HTTP://korolev.dk/')).to.equal(true)
+    expect(isWebUrl('/uploads/inquisitor.jpg')).to.equal(true)
+  })
+
+  it('rejects other schemes', () => {
+    expect(isWebUrl('javascript:alert(1)')).to.equal(false)
+    expect(isWebUrl(' javascript:alert(1)')).to.equal(false)
+    expect(isWebUrl('data:image/svg+xml;base64,AAAA')).to.equal(false)
+    expect(isWebUrl(undefined)).to.equal(false)
+  })
+})
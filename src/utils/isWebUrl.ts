@@ -0,0 +1,5 @@
+/**
+ * Whether a user-supplied address is safe for href and src: http(s) or a path on the site, never `javascript:` and
+ * the like. Profiles saved before the schema checked it may still hold anything.
+ */
+export const isWebUrl = (url: string = ''): boolean => /^(https?:\/\/|\/)/i.test(url)
@@ -0,0 +1,20 @@
+const monthNames = [
+  'Январь',
+  'Февраль',
+  'Март',
+  'Апрель',
+  'Май',
+  'Июнь',
+  'Июль',
+  'Август',
+  'Сентябрь',
+  'Октябрь',
+  'Ноябрь',
+  'Декабрь'
+]
+
+/**
+ * Title of a year or a month of the date archives, months are numbered from 1
+ */
+export const periodTitle = (year: string | number, month?: string | number): string =>
+  month ? `${monthNames[Number(month) - 1]} ${year}` : `${year}`
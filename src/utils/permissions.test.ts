@@ -0,0 +1,36 @@
+import { expect } from 'chai'
+import { canEdit, permissions } from './permissions'
+
+describe('permissions', () => {
+  const author: any = { _id: 'author', level: 10 }
+  const editor: any = { _id: 'editor', level: 30 }
+  const admin: any = { _id: 'admin', level: 50 }
+  const post = { _id: 'burn-the-heretic', author: 'author' }
+
+  it('lets authors edit their own posts only', () => {
+    expect(canEdit(author, permissions.posts, post)).to.equal(true)
+    expect(canEdit(author, permissions.posts, { ...post, author: 'editor' })).to.equal(false)
+    expect(canEdit(author, permissions.posts)).to.equal(false)
+  })
+
+  it('lets editors edit any posts and tags', () => {
+    expect(canEdit(editor, permissions.posts, { ...post, author: 'admin' })).to.equal(true)
+    expect(canEdit(editor, permissions.tags)).to.equal(true)
+    expect(canEdit(author, permissions.tags)).to.equal(false)
+  })
+
+  it('leaves users and options to admins', () => {
+    expect(canEdit(editor, permissions.options)).to.equal(false)
+    expect(canEdit(editor, permissions.users, { _id: 'author' })).to.equal(false)
+    expect(canEdit(admin, permissions.options)).to.equal(true)
+    expect(canEdit(admin, permissions.users, { _id: 'author' })).to.equal(true)
+  })
+
+  it('lets users edit their own profiles', () => {
+    expect(canEdit(author, permissions.users, { _id: 'author' })).to.equal(true)
+  })
+
+  it('lets anonymous visitors edit nothing', () => {
+    expect(canEdit(undefined, permissions.posts, post)).to.equal(false)
+  })
+})
@@ -0,0 +1,32 @@
+import { hasRole, UserRoles } from './user'
+
+// Models
+import { IPermission, IUserData } from 'models/user'
+
+/**
+ * Who may change what. Services that are not listed here are managed by admins only.
+ */
+export const permissions: { [K: string]: IPermission } = {
+  headlines: { create: UserRoles.editor, edit: UserRoles.editor },
+  options: { create: UserRoles.admin, edit: UserRoles.admin },
+  pages: { create: UserRoles.editor, edit: UserRoles.editor },
+  posts: { create: UserRoles.author, edit: UserRoles.editor, editOwn: UserRoles.author, ownerField: 'author' },
+  tags: { create: UserRoles.editor, edit: UserRoles.editor },
+  // Everyone may edit their own profile, the users service keeps them from changing their role
+  users: { create: UserRoles.admin, edit: UserRoles.admin, editOwn: UserRoles.anonymous, ownerField: '_id' }
+}
+
+/**
+ * Whether the user may change the item, or any item of the kind when there is no item to check the owner of
+ */
+export const canEdit = (user: IUserData, { edit, editOwn, ownerField }: IPermission, item?: object): boolean => {
+  if (!user) {
+    return false
+  }
+
+  if (hasRole(user.level, edit)) {
+    return true
+  }
+
+  return editOwn !== undefined && hasRole(user.level, editOwn) && !!item && item[ownerField] === user._id
+}
@@ -0,0 +1,61 @@
+import { expect } from 'chai'
+import { postMeta } from './postMeta'
+
+describe('postMeta', () => {
+  const post: any = {
+    _id: 'burn-the-heretic',
+    _created: '2017-02-23T14:24:04.211Z',
+    _html: '<p>Burn the Heretic! Kill the Mutant! Purge the Penguin!</p>',
+    content: 'Burn the Heretic! Kill the Mutant! Purge the Penguin!',
+    title: 'Burn </script> the Heretic'
+  }
+  const tags: any[] = [{ _id: 'code', title: 'Code' }]
+  const options = {
+    item: post,
+    tags,
+    url: 'https://korolev.dk/post/burn-the-heretic/',
+    siteTitle: 'Пингвин Рыба Есть',
+    excerptLength: 17,
+    isPost: true
+  }
+  const content = (meta: any[], key: string): string[] => meta
+    .filter(({ name, property }: any) => name === key || property === key)
+    .map(({ content: value }: any) => value)
+
+  it('describes posts for social networks', () => {
+    const { meta } = postMeta(options)
+
+    expect(content(meta, 'og:title')).to.eql(['Burn </script> the Heretic'])
+    expect(content(meta, 'og:description')).to.eql(['Burn the Heretic!...'])
+    expect(content(meta, 'og:url')).to.eql(['https://korolev.dk/post/burn-the-heretic/'])
+    expect(content(meta, 'article:published_time')).to.eql(['2017-02-23T14:24:04.211Z'])
+    expect(content(meta, 'article:tag')).to.eql(['Code'])
+    expect(content(meta, 'twitter:card')).to.eql(['summary'])
+  })
+
+  it('prefers the excerpt', () => {
+    const { meta } = postMeta({ ...options, item: { ...post, excerpt: '<b>Purge</b> the Penguin' } })
+
+    expect(content(meta, 'og:description')).to.eql(['Purge the Penguin'])
+  })
+
+  it('adds a safe BlogPosting JSON-LD block', () => {
+    const [{ type, innerHTML }] = postMeta(options).script
+
+    expect(type).to.equal('application/ld+json')
+    expect(innerHTML).not.to.contain('</script>')
+    expect(JSON.parse(innerHTML)).to.include({
+      '@type': 'BlogPosting',
+      'headline': 'Burn </script> the Heretic',
+      'keywords': 'Code'
+    })
+  })
+
+  it('has no article data for pages', () => {
+    const { meta, script } = postMeta({ ...options, isPost: false })
+
+    expect(content(meta, 'og:type')).to.eql(['website'])
+    expect(content(meta, 'article:published_time')).to.eql([])
+    expect(script).to.eql([])
+  })
+})
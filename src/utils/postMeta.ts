@@ -0,0 +1,91 @@
+import { makeExcerpt } from './makeExcerpt'
+
+// Models
+import { IHeadMeta, IHeadScript } from 'models/appication'
+import { IPage } from 'models/pages'
+import { IPost } from 'models/posts'
+import { ITag } from 'models/tags'
+
+interface IPostMetaOptions {
+  item: IPost | IPage
+  tags: ITag[]
+  url: string
+  siteTitle: string
+  excerptLength: number
+  isPost: boolean
+}
+
+interface IPostMeta {
+  title: string
+  meta: IHeadMeta[]
+  script: IHeadScript[]
+}
+
+const stripTags = (html: string): string => html
+  .replace(/<[^>]*>/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim()
+
+const isofyDate = (date: string): string => new Date(date).toISOString()
+
+// JSON goes straight into a script tag, so it must not be able to close it
+const toJsonLd = (data: object): string => JSON.stringify(data).replace(/</g, '\\u003c')
+
+/**
+ * Open Graph, Twitter Card and JSON-LD metadata of a single post or page, in react-helmet format
+ */
+export const postMeta = ({ item, tags, url, siteTitle, excerptLength, isPost }: IPostMetaOptions): IPostMeta => {
+  const { _created, _updated, _html, content, title = siteTitle } = item
+  const { _excerpt, excerpt } = item as IPost
+  const description = stripTags(_excerpt || excerpt || '') ||
+    makeExcerpt(excerptLength)(stripTags(_html || content || ''))
+  const tagTitles = tags.filter(Boolean).map(({ title: tagTitle }: ITag): string => tagTitle)
+
+  const meta: IHeadMeta[] = [
+    { name: 'description', content: description },
+    { property: 'og:type', content: isPost ? 'article' : 'website' },
+    { property: 'og:site_name', content: siteTitle },
+    { property: 'og:title', content: title },
+    { property: 'og:description', content: description },
+    { property: 'og:url', content: url },
+    { name: 'twitter:card', content: 'summary' },
+    { name: 'twitter:title', content: title },
+    { name: 'twitter:description', content: description }
+  ]
+
+  if (!isPost) {
+    return { title, meta, script: [] }
+  }
+
+  meta.push({ property: 'article:published_time', content: isofyDate(_created) })
+
+  if (_updated) {
+    meta.push({ property: 'article:modified_time', content: isofyDate(_updated) })
+  }
+
+  tagTitles.forEach((tagTitle: string): void => {
+    meta.push({ property: 'article:tag', content: tagTitle })
+  })
+
+  const jsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'BlogPosting',
+    'headline': title,
+    'description': description,
+    'url': url,
+    'mainEntityOfPage': url,
+    'datePublished': isofyDate(_created),
+    'dateModified': isofyDate(_updated || _created),
+    'keywords': tagTitles.join(', '),
+    'publisher': {
+      '@type': 'Organization',
+      'name': siteTitle
+    }
+  }
+
+  return {
+    title,
+    meta,
+    script: [{ type: 'application/ld+json', innerHTML: toJsonLd(jsonLd) }]
+  }
+}
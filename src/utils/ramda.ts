@@ -9,6 +9,7 @@ const indexBy = require('ramda/src/indexBy')
 const join = require('ramda/src/join')
 const map = require('ramda/src/map')
 const memoize = require('ramda/src/memoize')
+const omit = require('ramda/src/omit')
 const path = require('ramda/src/path')
 const pathOr = require('ramda/src/pathOr')
 const pick = require('ramda/src/pick')
@@ -35,6 +36,7 @@ export {
   join,
   map,
   memoize,
+  omit,
   path,
   pathOr,
   pick,
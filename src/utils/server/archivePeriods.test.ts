@@ -0,0 +1,38 @@
+import { expect } from 'chai'
+import { countByMonth, periodRange } from './archivePeriods'
+
+describe('archivePeriods', () => {
+  describe('periodRange', () => {
+    it('spans a month', () => {
+      const { $gte, $lt } = periodRange('2016', '03')
+
+      expect($gte.toISOString()).to.equal('2016-03-01T00:00:00.000Z')
+      expect($lt.toISOString()).to.equal('2016-04-01T00:00:00.000Z')
+    })
+
+    it('spans a year, December included', () => {
+      expect(periodRange('2016').$lt.toISOString()).to.equal('2017-01-01T00:00:00.000Z')
+      expect(periodRange('2016', '12').$lt.toISOString()).to.equal('2017-01-01T00:00:00.000Z')
+    })
+
+    it('knows no other periods', () => {
+      expect(periodRange('16')).to.equal(undefined)
+      expect(periodRange('about')).to.equal(undefined)
+      expect(periodRange('2016', '13')).to.equal(undefined)
+      expect(periodRange('2016', '00')).to.equal(undefined)
+      expect(periodRange('2016', 'heresy')).to.equal(undefined)
+    })
+  })
+
+  describe('countByMonth', () => {
+    it('counts posts of each month, the latest first', () => {
+      const dates = ['2016-03-31T23:59:59Z', '2017-01-01T00:00:00Z', '2016-03-01T00:00:00Z', '2016-12-15T00:00:00Z']
+
+      expect(countByMonth(dates.map((date: string): Date => new Date(date)))).to.eql([
+        { year: 2017, month: 1, count: 1 },
+        { year: 2016, month: 12, count: 1 },
+        { year: 2016, month: 3, count: 2 }
+      ])
+    })
+  })
+})
@@ -0,0 +1,40 @@
+// Models
+import { IArchiveMonth, IDateRange } from 'models/posts'
+
+const isMonth = (month: number): boolean => month >= 1 && month <= 12
+
+/**
+ * The range of `_created` dates within a year or a month of it, in UTC like dates are shown on the site.
+ * Undefined when there is no such period.
+ */
+export const periodRange = (year: string, month?: string): IDateRange => {
+  if (!/^\d{4}$/.test(year) || (month !== undefined && !(/^\d{1,2}$/.test(month) && isMonth(Number(month))))) {
+    return undefined
+  }
+
+  const start = month === undefined ? Date.UTC(Number(year), 0) : Date.UTC(Number(year), Number(month) - 1)
+  const end = month === undefined ? Date.UTC(Number(year) + 1, 0) : Date.UTC(Number(year), Number(month))
+
+  return { $gte: new Date(start), $lt: new Date(end) }
+}
+
+/**
+ * Numbers of posts in each month that has any, the latest month first
+ */
+export const countByMonth = (dates: Date[]): IArchiveMonth[] => {
+  const counts = new Map<number, number>()
+
+  dates.forEach((date: Date): void => {
+    const key = date.getUTCFullYear() * 12 + date.getUTCMonth()
+
+    counts.set(key, (counts.get(key) || 0) + 1)
+  })
+
+  return Array.from(counts.keys())
+    .sort((a: number, b: number): number => b - a)
+    .map((key: number): IArchiveMonth => ({
+      year: Math.floor(key / 12),
+      month: key % 12 + 1,
+      count: counts.get(key)
+    }))
+}
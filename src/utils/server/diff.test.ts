@@ -0,0 +1,40 @@
+import { expect } from 'chai'
+import { diffLines } from './diff'
+
+describe('diffLines', () => {
+  it('should keep equal texts in a single chunk', () => {
+    expect(diffLines('one\ntwo', 'one\ntwo')).to.eql([
+      { type: 'unchanged', value: 'one\ntwo' }
+    ])
+    expect(diffLines('', '')).to.eql([])
+  })
+
+  it('should find added, removed and changed lines', () => {
+    expect(diffLines('one\ntwo\nthree\nfour', 'one\n2\nthree\nfour\nfive')).to.eql([
+      { type: 'unchanged', value: 'one' },
+      { type: 'removed', value: 'two' },
+      { type: 'added', value: '2' },
+      { type: 'unchanged', value: 'three\nfour' },
+      { type: 'added', value: 'five' }
+    ])
+  })
+
+  it('should handle empty sides', () => {
+    expect(diffLines('', 'new\ntext')).to.eql([
+      { type: 'added', value: 'new\ntext' }
+    ])
+    expect(diffLines('old', '')).to.eql([
+      { type: 'removed', value: 'old' }
+    ])
+  })
+
+  it('should keep lines moved around as unchanged where possible', () => {
+    expect(diffLines('a\nb\nc\nd', 'a\nc\nb\nd')).to.eql([
+      { type: 'unchanged', value: 'a' },
+      { type: 'removed', value: 'b' },
+      { type: 'unchanged', value: 'c' },
+      { type: 'added', value: 'b' },
+      { type: 'unchanged', value: 'd' }
+    ])
+  })
+})
@@ -0,0 +1,74 @@
+// Models
+import { IDiffChunk, IDiffChunkType } from 'models/diff'
+
+const splitLines = (text: string = ''): string[] => text === '' ? [] : text.split(/\r?\n/)
+
+const pushLine = (chunks: IDiffChunk[], type: IDiffChunkType, line: string): void => {
+  const last = chunks[chunks.length - 1]
+
+  if (last && last.type === type) {
+    last.value += `\n${line}`
+  } else {
+    chunks.push({ type, value: line })
+  }
+}
+
+/**
+ * Line based diff built on the longest common subsequence.
+ * Common head and tail are cut off first, so a typical edit of a long post stays cheap.
+ */
+const diffLines = (before: string, after: string): IDiffChunk[] => {
+  const a = splitLines(before)
+  const b = splitLines(after)
+  let head = 0
+  let tail = 0
+
+  while (head < a.length && head < b.length && a[head] === b[head]) {
+    head += 1
+  }
+
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) {
+    tail += 1
+  }
+
+  const from = a.slice(head, a.length - tail)
+  const to = b.slice(head, b.length - tail)
+  const width = to.length + 1
+  const lcs = new Uint32Array((from.length + 1) * width)
+
+  for (let row = from.length - 1; row >= 0; row -= 1) {
+    for (let col = to.length - 1; col >= 0; col -= 1) {
+      lcs[row * width + col] = from[row] === to[col]
+        ? lcs[(row + 1) * width + col + 1] + 1
+        : Math.max(lcs[(row + 1) * width + col], lcs[row * width + col + 1])
+    }
+  }
+
+  const chunks: IDiffChunk[] = []
+  let i = 0
+  let j = 0
+
+  a.slice(0, head).forEach((line: string): void => pushLine(chunks, 'unchanged', line))
+
+  while (i < from.length || j < to.length) {
+    if (i < from.length && j < to.length && from[i] === to[j]) {
+      pushLine(chunks, 'unchanged', from[i])
+      i += 1
+      j += 1
+    } else if (i < from.length && (j === to.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      pushLine(chunks, 'removed', from[i])
+      i += 1
+    } else {
+      pushLine(chunks, 'added', to[j])
+      j += 1
+    }
+  }
+
+  a.slice(a.length - tail).forEach((line: string): void => pushLine(chunks, 'unchanged', line))
+
+  return chunks
+}
+
+export {
+  diffLines
+}
@@ -0,0 +1,44 @@
+import { expect } from 'chai'
+import { renderAtom, renderRss } from './feed'
+
+const feed = {
+  author: 'Дмитрий Королев',
+  title: 'Пингвин Рыба Есть',
+  description: 'Пингвин Рыба Есть',
+  link: 'https://korolev.dk/',
+  feedUrl: 'https://korolev.dk/feed/',
+  updated: '2017-02-25T14:24:04.225Z',
+  items: [
+    {
+      title: 'Burn the Heretic & Kill the Mutant',
+      link: 'https://korolev.dk/post/burn-the-heretic/',
+      description: '<p>Purge the Penguin!</p>',
+      published: '2017-02-23T14:24:04.211Z',
+      categories: ['Code']
+    }
+  ]
+}
+
+describe('renderRss', () => {
+  it('should render RSS 2.0 channel with escaped items', () => {
+    const result = renderRss(feed)
+
+    expect(result.startsWith('<?xml version="1.0" encoding="UTF-8"?><rss version="2.0"')).to.be.true
+    expect(result).to.contain('<title>Burn the Heretic &amp; Kill the Mutant</title>')
+    expect(result).to.contain('<description>&lt;p&gt;Purge the Penguin!&lt;/p&gt;</description>')
+    expect(result).to.contain('<pubDate>Thu, 23 Feb 2017 14:24:04 GMT</pubDate>')
+    expect(result).to.contain('<category>Code</category>')
+  })
+})
+
+describe('renderAtom', () => {
+  it('should render Atom feed with entries', () => {
+    const result = renderAtom(feed)
+
+    expect(result).to.contain('<feed xmlns="http://www.w3.org/2005/Atom">')
+    expect(result).to.contain('<link href="https://korolev.dk/feed/" rel="self"/>')
+    expect(result).to.contain('<id>https://korolev.dk/post/burn-the-heretic/</id>')
+    expect(result).to.contain('<updated>2017-02-23T14:24:04.211Z</updated>')
+    expect(result).to.contain('<category term="Code"/>')
+  })
+})
@@ -0,0 +1,66 @@
+import { escapeHtml } from './renderMarkdown'
+
+// Models
+import { IFeed, IFeedItem } from 'models/feed'
+
+const xmlDeclaration = '<?xml version="1.0" encoding="UTF-8"?>'
+
+const tag = (name: string, value: string = ''): string => `<${name}>${escapeHtml(value)}</${name}>`
+const rfc822 = (date: string): string => new Date(date).toUTCString()
+const iso = (date: string): string => new Date(date).toISOString()
+
+const renderRssItem = ({ title, link, description, published, categories }: IFeedItem): string => [
+  '<item>',
+  tag('title', title),
+  tag('link', link),
+  `<guid isPermaLink="true">${escapeHtml(link)}</guid>`,
+  tag('pubDate', rfc822(published)),
+  tag('description', description),
+  ...categories.map((category: string): string => tag('category', category)),
+  '</item>'
+].join('')
+
+const renderRss = ({ title, description, link, feedUrl, updated, items }: IFeed): string => [
+  xmlDeclaration,
+  '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+  '<channel>',
+  tag('title', title),
+  tag('link', link),
+  tag('description', description),
+  tag('lastBuildDate', rfc822(updated)),
+  `<atom:link href="${escapeHtml(feedUrl)}" rel="self" type="application/rss+xml"/>`,
+  ...items.map(renderRssItem),
+  '</channel>',
+  '</rss>'
+].join('')
+
+const renderAtomEntry = ({ title, link, description, published, updated, categories }: IFeedItem): string => [
+  '<entry>',
+  tag('title', title),
+  tag('id', link),
+  `<link href="${escapeHtml(link)}" rel="alternate"/>`,
+  tag('published', iso(published)),
+  tag('updated', iso(updated || published)),
+  `<summary type="html">${escapeHtml(description)}</summary>`,
+  ...categories.map((category: string): string => `<category term="${escapeHtml(category)}"/>`),
+  '</entry>'
+].join('')
+
+const renderAtom = ({ title, author, description, link, feedUrl, updated, items }: IFeed): string => [
+  xmlDeclaration,
+  '<feed xmlns="http://www.w3.org/2005/Atom">',
+  tag('title', title),
+  tag('subtitle', description),
+  tag('id', link),
+  `<link href="${escapeHtml(link)}" rel="alternate"/>`,
+  `<link href="${escapeHtml(feedUrl)}" rel="self"/>`,
+  tag('updated', iso(updated)),
+  `<author>${tag('name', author)}</author>`,
+  ...items.map(renderAtomEntry),
+  '</feed>'
+].join('')
+
+export {
+  renderAtom,
+  renderRss
+}
@@ -0,0 +1,30 @@
+import { expect } from 'chai'
+import { filterQuery } from './filterQuery'
+
+describe('filterQuery', () => {
+  const isPublic = (field: string): boolean => ['_id', 'name'].indexOf(field) !== -1
+
+  it('keeps allowed fields and paging', () => {
+    expect(filterQuery({ name: 'Inquisitor', _id: { $in: ['1'] }, $limit: 5, $skip: 10 }, isPublic))
+      .to.eql({ name: 'Inquisitor', _id: { $in: ['1'] }, $limit: 5, $skip: 10 })
+  })
+
+  it('drops other fields at any depth', () => {
+    expect(filterQuery({
+      email: 'heretic@korolev.dk',
+      $or: [{ email: 'heretic@korolev.dk' }, { name: 'Heretic' }],
+      $and: [{ password: { $gt: '$2a' } }],
+      $not: { 'email.length': 10 },
+      $where: 'true'
+    }, isPublic)).to.eql({
+      $or: [{}, { name: 'Heretic' }],
+      $and: [{}],
+      $not: {}
+    })
+  })
+
+  it('drops sorting and selection by other fields', () => {
+    expect(filterQuery({ $sort: { email: 1, name: -1 }, $select: ['name', 'password'] }, isPublic))
+      .to.eql({ $sort: { name: -1 }, $select: ['name'] })
+  })
+})
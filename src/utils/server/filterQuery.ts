@@ -0,0 +1,35 @@
+const paging = ['$limit', '$skip']
+const combinators = ['$and', '$or']
+
+const isObject = (value: any): boolean => typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * The query with conditions on allowed fields only, at any depth: inside $and, $or and $not, in sorting and
+ * in selected fields. Conditions and sorting on any other field would let clients guess its values.
+ * Dotted paths are checked by their first field.
+ */
+export const filterQuery = (query: any, isAllowed: (field: string) => boolean): any => {
+  const allowed = (key: string): boolean => isAllowed(key.split('.')[0])
+
+  return Object.keys(query).reduce((result: any, key: string): any => {
+    const value = query[key]
+
+    if (paging.indexOf(key) !== -1) {
+      result[key] = value
+    } else if (combinators.indexOf(key) !== -1) {
+      if (Array.isArray(value)) {
+        result[key] = value.filter(isObject).map((condition: any): any => filterQuery(condition, isAllowed))
+      }
+    } else if (key === '$not' || key === '$sort') {
+      if (isObject(value)) {
+        result[key] = filterQuery(value, isAllowed)
+      }
+    } else if (key === '$select') {
+      result[key] = [].concat(value).filter(allowed)
+    } else if (key[0] !== '$' && allowed(key)) {
+      result[key] = value
+    }
+
+    return result
+  }, {})
+}
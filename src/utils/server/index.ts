@@ -1,10 +1,34 @@
 export {
+  validateComment,
   validateHeadline,
   validateOption,
   validatePage,
   validatePost,
+  validateRedirect,
+  validateRevision,
   validateTag,
-  validateUser
+  validateUpload,
+  validateUser,
+  validateWebmention
 } from 'utils/server/validator'
+export { countByMonth, periodRange } from './archivePeriods'
 export { calcPage } from './calcPage'
 export { dbPath } from './dbPath'
+export { diffLines } from './diff'
+export { renderAtom, renderRss } from './feed'
+export { filterQuery } from './filterQuery'
+export { fileMailTransport, mailPath } from './mail'
+export { escapeHtml, isSafeUrl, renderMarkdown } from './renderMarkdown'
+export { decodeEntities, plainText } from './plainText'
+export { isPrivateAddress } from './privateAddress'
+export { publicProfile } from './publicProfile'
+export { fillRedirect, matchRedirect } from './redirectPattern'
+export { rankRelated } from './relatedPosts'
+export { responsiveImages, srcset } from './responsiveImages'
+export { createSearchIndex } from './searchIndex'
+export { renderSitemap } from './sitemap'
+export { splitPages } from './splitPages'
+export { tokenize } from './tokenize'
+export { uploadsPath } from './uploadsPath'
+export { createToken, expiresIn, hashToken, isExpired } from './userTokens'
+export { discoverEndpoint, findLinks, linksTo, parseMention, sendWebmention } from './webmention'
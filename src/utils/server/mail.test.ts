@@ -0,0 +1,28 @@
+import { expect } from 'chai'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { fileMailTransport, formatMail } from './mail'
+
+describe('mail', () => {
+  const mail = {
+    to: 'inquisitor@korolev.dk',
+    subject: 'Приглашение',
+    text: 'Burn the Heretic!'
+  }
+
+  it('formats emails as plain text', () => {
+    expect(formatMail(mail)).to.equal('To: inquisitor@korolev.dk\nSubject: Приглашение\n\nBurn the Heretic!\n')
+  })
+
+  it('writes emails to files', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'mail-'))
+
+    await fileMailTransport(path.join(directory, 'mail')).send(mail)
+
+    const [filename] = fs.readdirSync(path.join(directory, 'mail'))
+
+    expect(filename).to.match(/inquisitor@korolev\.dk\.txt$/)
+    expect(fs.readFileSync(path.join(directory, 'mail', filename), 'utf8')).to.equal(formatMail(mail))
+  })
+})
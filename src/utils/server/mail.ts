@@ -0,0 +1,35 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+// Models
+import { IMail, IMailTransport } from 'models/mail'
+
+export const mailPath =
+  process.env.NODE_ENV === 'production'
+    ? (filename: string): string => path.join(__dirname, 'mail', filename)
+    : (filename: string): string => path.join('mail', filename)
+
+const ensureDirectory = (directory: string): void => {
+  try {
+    fs.mkdirSync(directory)
+  } catch (error) {
+    if (error.code !== 'EEXIST') {
+      throw error
+    }
+  }
+}
+
+export const formatMail = ({ to, subject, text }: IMail): string => `To: ${to}\nSubject: ${subject}\n\n${text}\n`
+
+/**
+ * Stand-in for a real transport in development, writes every email to a text file named by its time and recipient
+ */
+export const fileMailTransport = (directory: string = mailPath('')): IMailTransport => ({
+  send: (mail: IMail): Promise<void> => new Promise((resolve: any, reject: any): void => {
+    const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${mail.to.replace(/[^\w.@-]/g, '_')}.txt`
+    const done = (error: Error): void => error ? reject(error) : resolve()
+
+    ensureDirectory(directory)
+    fs.writeFile(path.join(directory, filename), formatMail(mail), done)
+  })
+})
@@ -0,0 +1,13 @@
+import { expect } from 'chai'
+import { plainText } from './plainText'
+
+describe('plainText', () => {
+  it('strips tags and decodes entities', () => {
+    expect(plainText('<p>Burn <strong>the</strong>\n Heretic &amp; Kill&#32;the&lt;Mutant&gt;</p>'))
+      .to.equal('Burn the Heretic & Kill the<Mutant>')
+  })
+
+  it('drops scripts and styles with their contents', () => {
+    expect(plainText('<style>p {}</style><p>Purge</p><script>alert(1)</script>')).to.equal('Purge')
+  })
+})
@@ -0,0 +1,18 @@
+export const decodeEntities = (source: string): string => source
+  .replace(/&#(\d+);/g, (_: string, code: string): string => String.fromCharCode(Number(code)))
+  .replace(/&#x([0-9a-f]+);/gi, (_: string, code: string): string => String.fromCharCode(parseInt(code, 16)))
+  .replace(/&nbsp;/g, '\u00a0')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;/g, '\'')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&amp;/g, '&')
+
+/**
+ * Text of the markup without tags and entities, safe to cut anywhere and to escape again
+ */
+export const plainText = (html: string = ''): string => decodeEntities(html
+  .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, ' ')
+  .replace(/<[^>]*>/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim())
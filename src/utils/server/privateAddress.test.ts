@@ -0,0 +1,29 @@
+import { expect } from 'chai'
+import { isPrivateAddress } from './privateAddress'
+
+describe('isPrivateAddress', () => {
+  it('finds local and private IPv4 addresses', () => {
+    ['127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '0.0.0.0']
+      .forEach((address: string): void => {
+        expect(isPrivateAddress(address), address).to.equal(true)
+      })
+  })
+
+  it('lets public IPv4 addresses through', () => {
+    ['8.8.8.8', '172.32.0.1', '93.184.216.34'].forEach((address: string): void => {
+      expect(isPrivateAddress(address), address).to.equal(false)
+    })
+  })
+
+  it('checks IPv6 addresses', () => {
+    expect(isPrivateAddress('::1')).to.equal(true)
+    expect(isPrivateAddress('fd00::1')).to.equal(true)
+    expect(isPrivateAddress('fe80::1')).to.equal(true)
+    expect(isPrivateAddress('::ffff:127.0.0.1')).to.equal(true)
+    expect(isPrivateAddress('2a00:1450:4001::200e')).to.equal(false)
+  })
+
+  it('treats anything else as private', () => {
+    expect(isPrivateAddress('localhost')).to.equal(true)
+  })
+})
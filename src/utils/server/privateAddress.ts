@@ -0,0 +1,50 @@
+import { isIP } from 'net'
+
+// [first address, prefix length] of IPv4 networks that are not on the public internet
+const privateNetworks: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3]
+]
+
+const ipv4ToNumber = (address: string): number => address
+  .split('.')
+  .reduce((result: number, octet: string): number => result * 256 + Number(octet), 0)
+
+const isPrivateIpv4 = (address: string): boolean => privateNetworks.some(([network, prefix]: [string, number]) => {
+  const size = Math.pow(2, 32 - prefix)
+
+  return Math.floor(ipv4ToNumber(address) / size) === Math.floor(ipv4ToNumber(network) / size)
+})
+
+// Loopback, unspecified, unique local and link-local addresses, IPv4 ones are checked as IPv4
+const isPrivateIpv6 = (address: string): boolean => {
+  const lower = address.toLowerCase()
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+
+  if (mapped) {
+    return isPrivateIpv4(mapped[1])
+  }
+
+  return lower === '::1' || lower === '::' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower)
+}
+
+/**
+ * Whether the address belongs to a local or private network, anything that is not an IP address counts as private
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  switch (isIP(address)) {
+    case 4:
+      return isPrivateIpv4(address)
+    case 6:
+      return isPrivateIpv6(address)
+    default:
+      return true
+  }
+}
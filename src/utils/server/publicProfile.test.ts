@@ -0,0 +1,35 @@
+import { expect } from 'chai'
+import { publicProfile } from './publicProfile'
+
+describe('publicProfile', () => {
+  const user: any = {
+    _id: 'inquisitor',
+    email: 'inquisitor@korolev.dk',
+    password: '$2a$10$heresy',
+    level: 50,
+    username: 'inquisitor',
+    name: 'Inquisitor',
+    bio: 'Burns heretics',
+    avatar: '/uploads/inquisitor.jpg'
+  }
+
+  it('keeps only public fields', () => {
+    expect(publicProfile(user)).to.eql({
+      _id: 'inquisitor',
+      name: 'Inquisitor',
+      bio: 'Burns heretics',
+      avatar: '/uploads/inquisitor.jpg'
+    })
+  })
+
+  it('falls back to the username', () => {
+    expect(publicProfile({ ...user, name: undefined }).name).to.equal('inquisitor')
+  })
+
+  it('drops addresses that could run scripts', () => {
+    const profile = publicProfile({ ...user, url: 'javascript:alert(1)', avatar: 'data:image/svg+xml;base64,AAAA' })
+
+    expect(profile).not.to.have.property('url')
+    expect(profile).not.to.have.property('avatar')
+  })
+})
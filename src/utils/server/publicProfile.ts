@@ -0,0 +1,26 @@
+import { isWebUrl } from 'utils'
+
+// Models
+import { IAuthor, IUserData } from 'models/user'
+
+/**
+ * The part of a user that is shown to everyone, never the email or the password.
+ * Users without a display name are shown by their username, addresses other than http(s) ones are dropped.
+ */
+export const publicProfile = ({ _id, avatar, bio, name, url, username }: IUserData): IAuthor => {
+  const profile: IAuthor = { _id, name: name || username || '' }
+
+  if (isWebUrl(avatar)) {
+    profile.avatar = avatar
+  }
+
+  if (bio) {
+    profile.bio = bio
+  }
+
+  if (isWebUrl(url)) {
+    profile.url = url
+  }
+
+  return profile
+}
@@ -1,6 +1,8 @@
 const assocPath = require('ramda/src/assocPath')
 const lens = require('ramda/src/lens')
+const omit = require('ramda/src/omit')
 const path = require('ramda/src/path')
+const prop = require('ramda/src/prop')
 const set = require('ramda/src/set')
 const view = require('ramda/src/view')
 const T = require('ramda/src/T')
@@ -8,7 +10,9 @@ const T = require('ramda/src/T')
 export {
   assocPath,
   lens,
+  omit,
   path,
+  prop,
   set,
   view,
   T
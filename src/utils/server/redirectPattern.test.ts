@@ -0,0 +1,33 @@
+import { expect } from 'chai'
+import { fillRedirect, matchRedirect } from './redirectPattern'
+
+describe('redirectPattern', () => {
+  it('captures named segments', () => {
+    expect(matchRedirect('/blog/:tagId/:postId/', '/blog/code/burn-the-heretic/')).to.eql({
+      tagId: 'code',
+      postId: 'burn-the-heretic'
+    })
+  })
+
+  it('ignores the trailing slash', () => {
+    expect(matchRedirect('/cats/:tagId/', '/cats/code')).to.eql({ tagId: 'code' })
+    expect(matchRedirect('/cats/:tagId', '/cats/code/')).to.eql({ tagId: 'code' })
+  })
+
+  it('matches the rest of the path with a splat', () => {
+    expect(matchRedirect('/old/*', '/old/2017/02/heretic.html')).to.eql({ splat: '2017/02/heretic.html' })
+  })
+
+  it('matches whole paths only', () => {
+    expect(matchRedirect('/cats/:tagId/', '/cats/code/page/2/')).to.equal(undefined)
+    expect(matchRedirect('/blog.php', '/blogXphp')).to.equal(undefined)
+  })
+
+  it('fills the target with captured values', () => {
+    expect(fillRedirect('/post/:postId/', { tagId: 'code', postId: 'burn-the-heretic' })).to.equal(
+      '/post/burn-the-heretic/'
+    )
+    expect(fillRedirect('/archive/*', { splat: '2017/02/' })).to.equal('/archive/2017/02/')
+    expect(fillRedirect('/post/:unknown/', {})).to.equal('/post/:unknown/')
+  })
+})
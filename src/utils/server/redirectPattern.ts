@@ -0,0 +1,44 @@
+// Models
+import { IRedirectParams } from 'models/redirects'
+
+const placeholder = /:(\w+)|\*/g
+
+const escapeRegExp = (source: string): string => source.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Values captured from the path by a source pattern, undefined when it does not match.
+ * `:name` stands for a single path segment and `*` for anything, the trailing slash is optional on both sides.
+ */
+const matchRedirect = (pattern: string, pathname: string): IRedirectParams => {
+  const names: string[] = []
+  const source = escapeRegExp(pattern.replace(/\/$/, '')).replace(placeholder, (_: string, name?: string): string => {
+    names.push(name || 'splat')
+
+    return name ? '([^/]+)' : '(.*)'
+  })
+  const match = new RegExp(`^${source}/?$`).exec(pathname)
+
+  if (!match) {
+    return undefined
+  }
+
+  return names.reduce((params: IRedirectParams, name: string, index: number): IRedirectParams => ({
+    ...params,
+    [name]: decodeURIComponent(match[index + 1])
+  }), {})
+}
+
+/**
+ * Target of a redirect with the placeholders of its source filled in
+ */
+const fillRedirect = (target: string, params: IRedirectParams): string =>
+  target.replace(placeholder, (splat: string, name?: string): string => {
+    const value = params[name || 'splat']
+
+    return value === undefined ? splat : encodeURI(value)
+  })
+
+export {
+  fillRedirect,
+  matchRedirect
+}
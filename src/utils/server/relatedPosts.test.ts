@@ -0,0 +1,25 @@
+import { expect } from 'chai'
+import { rankRelated } from './relatedPosts'
+
+describe('rankRelated', () => {
+  const post = (_id: string, tags: string[], content: string): any => ({ _id, tags, content, title: '' })
+  const current = post('heretic', ['code', 'life'], 'Burn the heretic, kill the mutant, purge the penguin')
+
+  it('ranks posts by shared tags and then by common words', () => {
+    const candidates = [
+      post('unrelated', ['food'], 'Fish and chips'),
+      post('words', [], 'Purge every penguin and heretic'),
+      post('one-tag', ['code'], 'Nothing in common'),
+      post('both-tags', ['life', 'code'], 'Nothing in common'),
+      post('one-tag-and-words', ['life'], 'Kill the mutant')
+    ]
+
+    expect(rankRelated(current, candidates, 10)).to.eql(['both-tags', 'one-tag-and-words', 'one-tag', 'words'])
+  })
+
+  it('skips the post itself and respects the limit', () => {
+    const candidates = [current, post('both-tags', ['life', 'code'], ''), post('one-tag', ['code'], '')]
+
+    expect(rankRelated(current, candidates, 1)).to.eql(['both-tags'])
+  })
+})
@@ -0,0 +1,43 @@
+import { tokenize } from './tokenize'
+
+// Models
+import { IPost } from 'models/posts'
+
+const terms = ({ title = '', _html, content = '' }: IPost): Set<string> =>
+  new Set([...tokenize(title), ...tokenize(_html || content)])
+
+const countShared = <T> (a: T[], b: Set<T>): number =>
+  a.filter((item: T): boolean => b.has(item)).length
+
+// Jaccard index of the terms, from 0 for unrelated texts to 1 for the same words,
+// so a shared tag always says more about a post than any number of shared words
+const termOverlap = (a: Set<string>, b: Set<string>): number => {
+  const shared = countShared([...a], b)
+  const total = a.size + b.size - shared
+
+  return total ? shared / total : 0
+}
+
+/**
+ * Ids of the posts most similar to the given one, by shared tags first and by common terms then.
+ * Posts that share neither are not related at all.
+ */
+const rankRelated = (post: IPost, candidates: IPost[], limit: number): string[] => {
+  const postTags = new Set(post.tags || [])
+  const postTerms = terms(post)
+
+  return candidates
+    .filter(({ _id }: IPost): boolean => _id !== post._id)
+    .map((candidate: IPost): [string, number] => [
+      candidate._id,
+      countShared(candidate.tags || [], postTags) + termOverlap(postTerms, terms(candidate))
+    ])
+    .filter(([, score]: [string, number]): boolean => score > 0)
+    .sort(([, a]: [string, number], [, b]: [string, number]): number => b - a)
+    .slice(0, limit)
+    .map(([_id]: [string, number]): string => _id)
+}
+
+export {
+  rankRelated
+}
@@ -0,0 +1,36 @@
+import { expect } from 'chai'
+import { isSafeUrl, renderMarkdown } from './renderMarkdown'
+
+describe('renderMarkdown', () => {
+  it('should render basic markdown', () => {
+    expect(renderMarkdown('### Привет')).to.equal('<h3>Привет</h3>')
+    expect(renderMarkdown('Some **bold** and _em_ text')).to.equal(
+      '<p>Some <strong>bold</strong> and <em>em</em> text</p>'
+    )
+    expect(renderMarkdown('```js\nlet a = 1 < 2\n```')).to.equal(
+      '<pre><code class="language-js">let a = 1 &lt; 2</code></pre>'
+    )
+  })
+
+  it('should escape raw html', () => {
+    expect(renderMarkdown('<script>alert(1)</script>')).to.not.contain('<script>')
+  })
+
+  it('should drop unsafe links', () => {
+    expect(renderMarkdown('[click](javascript:alert(1))')).to.not.contain('href')
+    expect(renderMarkdown('[click](https://korolev.dk/ "Home")')).to.equal(
+      '<p><a href="https://korolev.dk/" title="Home">click</a></p>'
+    )
+  })
+})
+
+describe('isSafeUrl', () => {
+  it('should allow relative and whitelisted urls only', () => {
+    expect(isSafeUrl('/post/test/')).to.equal(true)
+    expect(isSafeUrl('http://korolev.dk')).to.equal(true)
+    expect(isSafeUrl('mailto:dmitry@korolev.dk')).to.equal(true)
+    expect(isSafeUrl('javascript:alert(1)')).to.equal(false)
+    expect(isSafeUrl(' JavaScript:alert(1)')).to.equal(false)
+    expect(isSafeUrl('data:text/html;base64,AAAA')).to.equal(false)
+  })
+})
@@ -0,0 +1,128 @@
+import MDJ, {
+  NodeCode,
+  NodeCodeBlock,
+  NodeHeading,
+  NodeImage,
+  NodeItem,
+  NodeLink,
+  NodeList,
+  NodeTable,
+  NodeText
+} from 'mdj'
+
+interface IParentNode {
+  children: NodeItem[]
+}
+
+type INodeRenderer = (node: any) => string
+type IParentRenderer = (node: IParentNode) => string
+
+const mdj = MDJ()
+
+const escapeMap = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  '\'': '&#39;'
+}
+
+const escapeHtml = (source: string = ''): string =>
+  source.replace(/[&<>"']/g, (char: string): string => escapeMap[char])
+
+// Relative urls are fine, absolute ones must use one of the whitelisted protocols
+const protocolRegExp = /^([a-z][a-z0-9+.-]*):/i
+const safeProtocols = ['http', 'https', 'mailto']
+
+const isSafeUrl = (url: string = ''): boolean => {
+  const match = url.replace(/[\x00-\x20]/g, '').match(protocolRegExp)
+
+  return !match || safeProtocols.indexOf(match[1].toLowerCase()) !== -1
+}
+
+const attribute = (name: string, value?: string | number): string =>
+  value === undefined || value === null || value === '' ? '' : ` ${name}="${escapeHtml(String(value))}"`
+
+const wrap = (tag: string): IParentRenderer => ({ children }: IParentNode): string =>
+  `<${tag}>${renderNodes(children)}</${tag}>`
+
+const renderLink = ({ href, title, children }: NodeLink): string => {
+  if (!isSafeUrl(href)) {
+    return renderNodes(children)
+  }
+
+  return `<a${attribute('href', href)}${attribute('title', title)}>${renderNodes(children)}</a>`
+}
+
+const renderImage = ({ src, alt, title }: NodeImage): string => {
+  if (!isSafeUrl(src)) {
+    return escapeHtml(alt)
+  }
+
+  return `<img${attribute('src', src)}${attribute('alt', alt)}${attribute('title', title)}/>`
+}
+
+const renderCodeBlock = ({ language, value }: NodeCodeBlock): string =>
+  `<pre><code${attribute('class', language && `language-${language}`)}>${escapeHtml(value)}</code></pre>`
+
+const renderList = ({ ordered, start, children }: NodeList): string => {
+  const tag = ordered ? 'ol' : 'ul'
+  const startAttribute = ordered && start > 1 ? attribute('start', start) : ''
+
+  return `<${tag}${startAttribute}>${renderNodes(children)}</${tag}>`
+}
+
+const renderTableCell = (tag: string, align: string, content: string): string =>
+  `<${tag}${attribute('style', align && `text-align: ${align}`)}>${content}</${tag}>`
+
+const renderTable = ({ header, align, cells }: NodeTable): string => {
+  const head = header
+    .map((title: string, index: number): string => renderTableCell('th', align[index], escapeHtml(title)))
+    .join('')
+  const body = cells
+    .map((row: NodeItem[][]): string => {
+      const rowContent = row
+        .map((cell: NodeItem[], index: number): string => renderTableCell('td', align[index], renderNodes(cell)))
+        .join('')
+
+      return `<tr>${rowContent}</tr>`
+    })
+    .join('')
+
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`
+}
+
+const renderers: { [K: string]: INodeRenderer } = {
+  space: (): string => '',
+  text: ({ value }: NodeText): string => escapeHtml(value),
+  strong: wrap('strong'),
+  em: wrap('em'),
+  strikethrough: wrap('del'),
+  code: ({ value }: NodeCode): string => `<code>${escapeHtml(value)}</code>`,
+  br: (): string => '<br/>',
+  link: renderLink,
+  image: renderImage,
+  heading: ({ level, children }: NodeHeading): string => wrap(`h${level}`)({ children }),
+  blockquote: wrap('blockquote'),
+  paragraph: wrap('p'),
+  codeblock: renderCodeBlock,
+  hr: (): string => '<hr/>',
+  table: renderTable,
+  listitem: wrap('li'),
+  list: renderList
+}
+
+// Unknown nodes are dropped, so nothing but whitelisted markup reaches the output
+function renderNodes (nodes: NodeItem[] = []): string {
+  return nodes
+    .map((node: NodeItem): string => renderers[node.type] ? renderers[node.type](node) : '')
+    .join('')
+}
+
+const renderMarkdown = (source: string = ''): string => renderNodes(mdj.parse(source))
+
+export {
+  escapeHtml,
+  isSafeUrl,
+  renderMarkdown
+}
@@ -0,0 +1,50 @@
+import { expect } from 'chai'
+import { responsiveImages, srcset } from './responsiveImages'
+
+describe('responsiveImages', () => {
+  const upload: any = {
+    _id: 'c0ffee',
+    alt: 'Penguin & fish',
+    filename: 'c0ffee.jpg',
+    height: 1000,
+    mimeType: 'image/jpeg',
+    size: 1024,
+    url: '/uploads/c0ffee.jpg',
+    variants: [
+      { width: 640, height: 400, url: '/uploads/c0ffee-640.jpg' },
+      { width: 320, height: 200, url: '/uploads/c0ffee-320.jpg' }
+    ],
+    width: 1600
+  }
+
+  it('lists variants from the smallest to the original', () => {
+    expect(srcset(upload)).to.equal(
+      '/uploads/c0ffee-320.jpg 320w, /uploads/c0ffee-640.jpg 640w, /uploads/c0ffee.jpg 1600w'
+    )
+  })
+
+  it('adds srcset and dimensions to uploaded images', () => {
+    const html = responsiveImages('<p><img src="/uploads/c0ffee.jpg" alt=""/></p>', [upload])
+
+    expect(html).to.contain('alt="Penguin &amp; fish"')
+    expect(html).to.contain('width="1600" height="1000"')
+    expect(html).to.contain(`srcset="${srcset(upload)}"`)
+    expect(html).to.contain('sizes="')
+    expect(html).to.match(/\/><\/p>$/)
+  })
+
+  it('keeps attributes set by the author', () => {
+    const html = responsiveImages('<img src="/uploads/c0ffee.jpg" alt="Heretic" width="800">', [upload])
+
+    expect(html).to.contain('alt="Heretic"')
+    expect(html).to.contain('width="800"')
+    expect(html).not.to.contain('width="1600"')
+    expect(html).not.to.contain('height=')
+  })
+
+  it('leaves other images alone', () => {
+    const html = '<img src="https://example.com/fish.jpg" alt=""/>'
+
+    expect(responsiveImages(html, [upload])).to.equal(html)
+  })
+})
@@ -0,0 +1,59 @@
+import { escapeHtml } from './renderMarkdown'
+
+// Models
+import { IUpload, IUploadVariant } from 'models/uploads'
+
+// Images never get wider than the site column, see --size__site-width
+const imageSizes = '(max-width: 645px) 100vw, 645px'
+
+const imageTag = /<img\b[^>]*>/gi
+
+const attributeValue = (tag: string, name: string): string => {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i').exec(tag)
+
+  return match ? match[1] || match[2] || '' : undefined
+}
+
+/**
+ * Candidates for the srcset attribute, from the smallest variant to the original
+ */
+const srcset = ({ url, width, variants }: IUpload): string => [...variants, { url, width }]
+  .sort((a: IUploadVariant, b: IUploadVariant): number => a.width - b.width)
+  .map((variant: IUploadVariant): string => `${variant.url} ${variant.width}w`)
+  .join(', ')
+
+/**
+ * Adds srcset, sizes and dimensions to images of uploaded files, whatever markup or markdown they came from.
+ * Attributes set by the author are kept.
+ */
+const responsiveImages = (html: string, uploads: IUpload[]): string => html.replace(imageTag, (tag: string): string => {
+  const src = attributeValue(tag, 'src')
+  const upload = uploads.find(({ url }: IUpload): boolean => url === src)
+
+  if (!upload) {
+    return tag
+  }
+
+  // Dimensions go together, one of them set by the author would distort the image otherwise
+  const hasSize = attributeValue(tag, 'width') !== undefined || attributeValue(tag, 'height') !== undefined
+  const attributes = {
+    alt: upload.alt,
+    width: hasSize ? undefined : String(upload.width),
+    height: hasSize ? undefined : String(upload.height),
+    srcset: upload.variants.length ? srcset(upload) : undefined,
+    sizes: upload.variants.length ? imageSizes : undefined
+  }
+  // Markdown images without a description come with an empty alt
+  const source = upload.alt ? tag.replace(/\salt\s*=\s*(""|'')/i, '') : tag
+  const added = Object.keys(attributes)
+    .filter((name: string): boolean => !!attributes[name] && attributeValue(source, name) === undefined)
+    .map((name: string): string => ` ${name}="${escapeHtml(attributes[name])}"`)
+    .join('')
+
+  return source.replace(/\s*\/?>$/, (end: string): string => `${added}${end}`)
+})
+
+export {
+  responsiveImages,
+  srcset
+}
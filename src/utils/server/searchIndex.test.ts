@@ -0,0 +1,42 @@
+import { expect } from 'chai'
+import { createSearchIndex } from './searchIndex'
+
+describe('createSearchIndex', () => {
+  const index = createSearchIndex()
+
+  index.add('post:penguins', {
+    title: 'Пингвины',
+    content: 'Пингвины не умеют летать, зато отлично плавают.'
+  })
+  index.add('post:fish', {
+    title: 'Рыба',
+    content: 'Пингвин рыба есть. Рыба пингвина не ест.'
+  })
+  index.add('page:about', {
+    title: 'Обо мне',
+    content: 'Дмитрий Королев, TypeScript и пингвины.'
+  })
+
+  it('should find documents by any word form and rank titles higher', () => {
+    expect(index.search('пингвинов')).to.eql(['post:penguins', 'post:fish', 'page:about'])
+    expect(index.search('рыбу')).to.eql(['post:fish'])
+  })
+
+  it('should require every query term', () => {
+    expect(index.search('пингвин typescript')).to.eql(['page:about'])
+    expect(index.search('пингвин кашалот')).to.eql([])
+    expect(index.search('')).to.eql([])
+  })
+
+  it('should update and remove documents', () => {
+    index.add('post:fish', {
+      title: 'Кашалот',
+      content: 'Больше никаких рыб.'
+    })
+    expect(index.search('кашалот')).to.eql(['post:fish'])
+    expect(index.search('рыба')).to.eql(['post:fish'])
+
+    index.remove('post:fish')
+    expect(index.search('кашалот')).to.eql([])
+  })
+})
@@ -0,0 +1,84 @@
+import { tokenize } from './tokenize'
+
+// Models
+import { ISearchDocument, ISearchIndex } from 'models/search'
+
+const TITLE_WEIGHT = 3
+
+const increment = (map: Map<string, number>, key: string, value: number): void => {
+  map.set(key, (map.get(key) || 0) + value)
+}
+
+const createSearchIndex = (): ISearchIndex => {
+  // term -> document key -> weight
+  const terms: Map<string, Map<string, number>> = new Map()
+  // document key -> terms, needed to clean the index up on remove
+  const documents: Map<string, string[]> = new Map()
+
+  const remove = (key: string): void => {
+    (documents.get(key) || []).forEach((term: string): void => {
+      const postings = terms.get(term)
+      postings.delete(key)
+
+      if (!postings.size) {
+        terms.delete(term)
+      }
+    })
+
+    documents.delete(key)
+  }
+
+  const add = (key: string, { title = '', content = '' }: ISearchDocument): void => {
+    const weights: Map<string, number> = new Map()
+
+    remove(key)
+    tokenize(title).forEach((term: string) => increment(weights, term, TITLE_WEIGHT))
+    tokenize(content).forEach((term: string) => increment(weights, term, 1))
+
+    weights.forEach((weight: number, term: string): void => {
+      if (!terms.has(term)) {
+        terms.set(term, new Map())
+      }
+
+      terms.get(term).set(key, weight)
+    })
+
+    documents.set(key, [...weights.keys()])
+  }
+
+  // Returns keys of documents containing every term of the query, most relevant first
+  const search = (query: string): string[] => {
+    const queryTerms = [...new Set(tokenize(query))]
+    const scores: Map<string, number> = new Map()
+    const matches: Map<string, number> = new Map()
+
+    queryTerms.forEach((term: string): void => {
+      const postings = terms.get(term)
+
+      if (!postings) {
+        return
+      }
+
+      const idf = Math.log(1 + documents.size / postings.size)
+
+      postings.forEach((weight: number, key: string): void => {
+        increment(scores, key, weight * idf)
+        increment(matches, key, 1)
+      })
+    })
+
+    return [...scores.keys()]
+      .filter((key: string): boolean => matches.get(key) === queryTerms.length)
+      .sort((a: string, b: string): number => scores.get(b) - scores.get(a))
+  }
+
+  return {
+    add,
+    remove,
+    search
+  }
+}
+
+export {
+  createSearchIndex
+}
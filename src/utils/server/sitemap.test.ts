@@ -0,0 +1,22 @@
+import { expect } from 'chai'
+import { renderSitemap } from './sitemap'
+
+describe('renderSitemap', () => {
+  it('should render urlset with optional lastmod', () => {
+    expect(renderSitemap([
+      {
+        loc: 'https://korolev.dk/',
+        lastmod: '2017-02-25T14:24:04.225Z'
+      },
+      {
+        loc: 'https://korolev.dk/archive/code/?a=1&b=2'
+      }
+    ])).to.equal([
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      '<url><loc>https://korolev.dk/</loc><lastmod>2017-02-25T14:24:04.225Z</lastmod></url>',
+      '<url><loc>https://korolev.dk/archive/code/?a=1&amp;b=2</loc></url>',
+      '</urlset>'
+    ].join(''))
+  })
+})
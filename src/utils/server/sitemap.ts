@@ -0,0 +1,22 @@
+import { escapeHtml } from './renderMarkdown'
+
+// Models
+import { ISitemapEntry } from 'models/sitemap'
+
+const renderEntry = ({ loc, lastmod }: ISitemapEntry): string => [
+  '<url>',
+  `<loc>${escapeHtml(loc)}</loc>`,
+  lastmod ? `<lastmod>${new Date(lastmod).toISOString()}</lastmod>` : '',
+  '</url>'
+].join('')
+
+const renderSitemap = (entries: ISitemapEntry[]): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+  ...entries.map(renderEntry),
+  '</urlset>'
+].join('')
+
+export {
+  renderSitemap
+}
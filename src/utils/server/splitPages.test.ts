@@ -0,0 +1,17 @@
+import { expect } from 'chai'
+import { splitPages } from './splitPages'
+
+describe('splitPages', () => {
+  it('splits content by page break markers', () => {
+    expect(splitPages('First\n<!--nextpage-->\nSecond<!-- NextPage -->Third')).to.eql(['First', 'Second', 'Third'])
+  })
+
+  it('keeps content without markers as a single page', () => {
+    expect(splitPages('<p>Only one</p>')).to.eql(['<p>Only one</p>'])
+  })
+
+  it('drops blank pages', () => {
+    expect(splitPages('<!--nextpage-->First<!--nextpage-->\n<!--nextpage-->')).to.eql(['First'])
+    expect(splitPages('')).to.eql([])
+  })
+})
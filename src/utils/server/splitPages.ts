@@ -0,0 +1,14 @@
+// The WordPress marker, so imported posts keep their pages
+const pageBreak = /<!--\s*nextpage\s*-->/i
+
+/**
+ * Parts of the content between page break markers, blank parts are dropped
+ */
+const splitPages = (content: string = ''): string[] => content
+  .split(pageBreak)
+  .map((part: string): string => part.trim())
+  .filter(Boolean)
+
+export {
+  splitPages
+}
@@ -0,0 +1,19 @@
+import { expect } from 'chai'
+import { tokenize } from './tokenize'
+
+describe('tokenize', () => {
+  it('should split text into lowercased terms without stop words', () => {
+    expect(tokenize('The quick brown fox, and the <b>lazy</b> dog')).to.eql(['quick', 'brown', 'fox', 'lazy', 'dog'])
+  })
+
+  it('should handle cyrillic text', () => {
+    expect(tokenize('Ёжик в тумане')).to.eql(['ежик', 'туман'])
+    expect(tokenize('Пингвины')).to.eql(tokenize('пингвинов'))
+    expect(tokenize('Пингвин Рыба Есть')).to.eql(['пингвин', 'рыб'])
+    expect(tokenize('Всё о пингвинах')).to.eql(['пингвин'])
+  })
+
+  it('should ignore html entities', () => {
+    expect(tokenize('Tom&nbsp;&amp;&#160;Jerry')).to.eql(['tom', 'jerry'])
+  })
+})
@@ -0,0 +1,54 @@
+const MIN_TOKEN_LENGTH = 2
+const MIN_STEM_LENGTH = 3
+
+const htmlTagRegExp = /<[^>]*>/g
+const htmlEntityRegExp = /&(#\d+|[a-z]+);/gi
+const tokenRegExp = /[a-z0-9а-я]+/g
+const cyrillicRegExp = /[а-я]/
+
+// Stop words go through the same normalization as the text, or those with ё would never match
+const normalize = (text: string): string => text.toLowerCase().replace(/ё/g, 'е')
+
+const stopWords = new Set([
+  'а', 'без', 'бы', 'был', 'была', 'были', 'было', 'быть', 'в', 'вам', 'вас', 'во', 'вот', 'все', 'всё', 'вы',
+  'где', 'да', 'для', 'до', 'его', 'ее', 'если', 'есть', 'еще', 'же', 'за', 'и', 'из', 'или', 'им', 'их', 'к',
+  'как', 'ко', 'когда', 'кто', 'ли', 'мне', 'мы', 'на', 'над', 'не', 'нет', 'ни', 'но', 'о', 'об', 'он', 'она',
+  'они', 'оно', 'от', 'по', 'под', 'при', 'с', 'со', 'так', 'там', 'те', 'то', 'того', 'тоже', 'только', 'ты',
+  'у', 'уже', 'чем', 'что', 'чтобы', 'это', 'этот', 'я',
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'that',
+  'the', 'this', 'to', 'was', 'with'
+].map(normalize))
+
+// Very light russian stemmer: cuts the longest known inflection, so "пингвины" and "пингвинов" meet
+const endings = [
+  'иями', 'ями', 'ами', 'ией', 'иям', 'ием', 'иях', 'ого', 'его', 'ому', 'ему', 'ими', 'ыми', 'ешь', 'ете',
+  'ишь', 'ите', 'ала', 'ила', 'ыла', 'ела', 'ать', 'ять', 'ить', 'еть', 'уть', 'ов', 'ев', 'ей', 'ой', 'ый',
+  'ий', 'ая', 'яя', 'ое', 'ее', 'ые', 'ие', 'ых', 'их', 'ым', 'им', 'ую', 'юю', 'ом', 'ем', 'ам', 'ям', 'ах',
+  'ях', 'ию', 'ия', 'ью', 'ья', 'ы', 'и', 'а', 'я', 'о', 'е', 'у', 'ю', 'ь', 'й'
+].sort((a: string, b: string): number => b.length - a.length)
+
+const stem = (token: string): string => {
+  if (!cyrillicRegExp.test(token)) {
+    return token
+  }
+
+  const ending = endings.find((candidate: string): boolean =>
+    token.endsWith(candidate) && token.length - candidate.length >= MIN_STEM_LENGTH)
+
+  return ending ? token.slice(0, -ending.length) : token
+}
+
+const tokenize = (source: string = ''): string[] => {
+  const tokens = normalize(source
+    .replace(htmlTagRegExp, ' ')
+    .replace(htmlEntityRegExp, ' '))
+    .match(tokenRegExp) || []
+
+  return tokens
+    .filter((token: string): boolean => token.length >= MIN_TOKEN_LENGTH && !stopWords.has(token))
+    .map(stem)
+}
+
+export {
+  tokenize
+}
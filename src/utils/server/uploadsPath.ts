@@ -0,0 +1,6 @@
+import * as path from 'path'
+
+export const uploadsPath =
+  process.env.NODE_ENV === 'production'
+    ? (filename: string): string => path.join(__dirname, 'uploads', filename)
+    : (filename: string): string => path.join('uploads', filename)
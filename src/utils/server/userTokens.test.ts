@@ -0,0 +1,25 @@
+import { expect } from 'chai'
+import { createToken, expiresIn, hashToken, isExpired } from './userTokens'
+
+describe('userTokens', () => {
+  const now = new Date('2017-02-23T14:24:04.211Z')
+
+  it('creates random tokens', () => {
+    expect(createToken()).to.match(/^[0-9a-f]{48}$/)
+    expect(createToken()).not.to.equal(createToken())
+  })
+
+  it('hashes tokens the same way every time', () => {
+    const token = createToken()
+
+    expect(hashToken(token)).to.equal(hashToken(token))
+    expect(hashToken(token)).not.to.equal(token)
+  })
+
+  it('expires tokens', () => {
+    const token = { expiresAt: expiresIn(1000, now) }
+
+    expect(isExpired(token, now)).to.equal(false)
+    expect(isExpired(token, new Date('2017-02-23T14:24:05.211Z'))).to.equal(true)
+  })
+})
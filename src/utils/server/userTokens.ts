@@ -0,0 +1,14 @@
+import * as crypto from 'crypto'
+
+// Long enough to be guessed never, short enough to fit in a link
+const tokenBytes = 24
+
+export const createToken = (): string => crypto.randomBytes(tokenBytes).toString('hex')
+
+// A leaked database should not let anyone register or take over an account
+export const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex')
+
+export const expiresIn = (milliseconds: number, now: Date = new Date()): Date => new Date(now.getTime() + milliseconds)
+
+export const isExpired = ({ expiresAt }: { expiresAt: Date }, now: Date = new Date()): boolean =>
+  new Date(expiresAt).getTime() <= now.getTime()
@@ -1,5 +1,5 @@
 import { expect } from 'chai'
-import { validatePost, validateTag } from './validator'
+import { validateComment, validatePost, validateRedirect, validateTag, validateUpload } from './validator'
 
 describe('Validators', () => {
   it('should validate tag', () => {
@@ -32,5 +32,74 @@ describe('Validators', () => {
       status: 'draft2',
       type: 'page'
     })).to.equal(false)
+
+    expect(validatePost({
+      content: 'officia',
+      status: 'scheduled'
+    })).to.equal(false)
+
+    expect(validatePost({
+      content: 'officia',
+      publishAt: '2042-01-01T00:00:00.000Z',
+      status: 'scheduled'
+    })).to.equal(true)
+  })
+
+  it('should validate comment', () => {
+    expect(validateComment({})).to.equal(false)
+
+    expect(validateComment({
+      content: 'Purge the Penguin!',
+      email: 'inquisitor@korolev.dk',
+      name: 'Inquisitor',
+      postId: 'burn-the-heretic'
+    })).to.equal(true)
+
+    expect(validateComment({
+      content: 'Purge the Penguin!',
+      email: 'heretic',
+      name: 'Inquisitor',
+      postId: 'burn-the-heretic',
+      status: 'heresy'
+    })).to.equal(false)
+  })
+
+  it('should validate redirect', () => {
+    expect(validateRedirect({})).to.equal(false)
+
+    expect(validateRedirect({
+      source: '/blog/:tagId/:postId/',
+      target: '/post/:postId/',
+      status: 301
+    })).to.equal(true)
+
+    expect(validateRedirect({
+      source: '/heresy/',
+      status: 410
+    })).to.equal(true)
+
+    expect(validateRedirect({
+      source: 'heresy',
+      target: '/',
+      status: 307
+    })).to.equal(false)
+  })
+
+  it('should validate upload', () => {
+    const upload = {
+      filename: 'heretic.jpg',
+      width: 800,
+      height: 600,
+      mimeType: 'image/jpeg',
+      size: 1024,
+      url: '/uploads/heretic.jpg',
+      variants: [{ width: 320, height: 240, url: '/uploads/heretic-320.jpg' }]
+    }
+
+    expect(validateUpload({})).to.equal(false)
+    expect(validateUpload(upload)).to.equal(true)
+    expect(validateUpload({ ...upload, alt: 'Burn the Heretic' })).to.equal(true)
+    expect(validateUpload({ ...upload, mimeType: 'image/svg+xml' })).to.equal(false)
+    expect(validateUpload({ ...upload, variants: [{ width: 320 }] })).to.equal(false)
   })
 })
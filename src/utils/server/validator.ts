@@ -1,25 +1,40 @@
 import * as Ajv from 'ajv'
+import * as comment from 'schemas/comment.json'
 import * as headline from 'schemas/headline.json'
 import * as option from 'schemas/option.json'
 import * as page from 'schemas/page.json'
 import * as post from 'schemas/post.json'
+import * as redirect from 'schemas/redirect.json'
+import * as revision from 'schemas/revision.json'
 import * as tag from 'schemas/tag.json'
+import * as upload from 'schemas/upload.json'
 import * as user from 'schemas/user.json'
+import * as webmention from 'schemas/webmention.json'
 
 const ajv = new Ajv()
 
+const validateComment = ajv.compile(comment)
 const validateHeadline = ajv.compile(headline)
 const validateOption = ajv.compile(option)
 const validatePage = ajv.compile(page)
 const validatePost = ajv.compile(post)
+const validateRedirect = ajv.compile(redirect)
+const validateRevision = ajv.compile(revision)
 const validateTag = ajv.compile(tag)
+const validateUpload = ajv.compile(upload)
 const validateUser = ajv.compile(user)
+const validateWebmention = ajv.compile(webmention)
 
 export {
+  validateComment,
   validateHeadline,
   validateOption,
   validatePage,
   validatePost,
+  validateRedirect,
+  validateRevision,
   validateTag,
-  validateUser
+  validateUpload,
+  validateUser,
+  validateWebmention
 }
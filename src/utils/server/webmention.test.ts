@@ -0,0 +1,125 @@
+import { expect } from 'chai'
+import { discoverEndpoint, findLinks, linksTo, parseMention, sendWebmention } from './webmention'
+
+// Models
+import { IFetchOptions, IFetchResponse } from 'models/webmentions'
+
+interface IPage {
+  status?: number
+  link?: string
+  html?: string
+}
+
+const fakeFetcher = (pages: { [K: string]: IPage }, requests: Array<[string, IFetchOptions]> = []) =>
+  async (url: string, options?: IFetchOptions): Promise<IFetchResponse> => {
+    const { status = 200, link = null, html = '' } = pages[url] || { status: 404 }
+
+    requests.push([url, options])
+
+    return {
+      ok: status < 300,
+      status,
+      url,
+      headers: {
+        get: (name: string): string | null => name === 'link' ? link : null
+      },
+      text: async (): Promise<string> => html
+    }
+  }
+
+const target = 'https://korolev.dk/post/burn-the-heretic/'
+const source = 'https://example.com/notes/1'
+
+describe('webmention', () => {
+  it('finds absolute links', () => {
+    const html = `
+      <a href="https://example.com/">Example</a>
+      <a href='/relative'>Relative</a>
+      <a href="mailto:inquisitor@korolev.dk">Mail</a>
+      <a class="u-like-of" href="https://example.com/">Again</a>
+    `
+
+    expect(findLinks(html)).to.eql(['https://example.com/'])
+    expect(findLinks(html, 'https://korolev.dk/post/')).to.eql(['https://example.com/', 'https://korolev.dk/relative'])
+  })
+
+  it('checks that the source links to the target', () => {
+    expect(linksTo(`<p><a href="${target}">Heretic</a></p>`, target)).to.be.true
+    expect(linksTo('<a href="https://korolev.dk/post/burn-the-heretic">Heretic</a>', target)).to.be.true
+    expect(linksTo('<p>https://korolev.dk/post/burn-the-heretic/</p>', target)).to.be.false
+  })
+
+  it('reads likes and their authors', () => {
+    const html = `
+      <div class="h-entry">
+        <a class="p-author h-card" href="/about">Inquisitor</a>
+        <img class="u-photo" src="/inquisitor.png">
+        <a class="u-like-of" href="${target}">Liked</a>
+      </div>
+    `
+
+    expect(parseMention(html, source, target)).to.eql({
+      type: 'like',
+      author: {
+        name: 'Inquisitor',
+        url: 'https://example.com/about',
+        photo: 'https://example.com/inquisitor.png'
+      }
+    })
+  })
+
+  it('drops author addresses that could run scripts', () => {
+    const html = `
+      <a class="p-author h-card" href="javascript:alert(1)">Heretic</a>
+      <img class="u-photo" src="data:image/svg+xml,<svg onload=alert(1)>">
+      <a class="u-like-of" href="${target}">Liked</a>
+    `
+
+    expect(parseMention(html, source, target).author).to.eql({ name: 'Heretic' })
+  })
+
+  it('reads replies with their content', () => {
+    const html = `
+      <a class="u-in-reply-to" href="${target}">In reply to</a>
+      <div class="e-content"><p>Purge &amp; <b>burn</b></p></div>
+    `
+
+    expect(parseMention(html, source, target)).to.eql({
+      type: 'reply',
+      author: { name: 'example.com' },
+      content: 'Purge & burn'
+    })
+  })
+
+  it('treats pages without microformats as mentions', () => {
+    expect(parseMention(`<a href="${target}">Heretic</a>`, source, target).type).to.equal('mention')
+  })
+
+  it('discovers endpoints in headers first and in markup then', async () => {
+    const fetcher = fakeFetcher({
+      'https://a.example/': { link: '</webmention>; rel="webmention"', html: '<link rel="webmention" href="/other">' },
+      'https://b.example/post': { html: '<link href="endpoint" rel="webmention">' },
+      'https://c.example/': { html: '<p>Nothing</p>' }
+    })
+
+    expect(await discoverEndpoint(fetcher, 'https://a.example/')).to.equal('https://a.example/webmention')
+    expect(await discoverEndpoint(fetcher, 'https://b.example/post')).to.equal('https://b.example/endpoint')
+    expect(await discoverEndpoint(fetcher, 'https://c.example/')).to.equal(undefined)
+    expect(await discoverEndpoint(fetcher, 'https://d.example/')).to.equal(undefined)
+  })
+
+  it('sends form encoded mentions to the endpoint', async () => {
+    const requests: Array<[string, IFetchOptions]> = []
+    const fetcher = fakeFetcher({
+      'https://example.com/notes/1': { link: '<https://example.com/webmention>; rel=webmention' },
+      'https://example.com/webmention': { status: 202 }
+    }, requests)
+
+    expect(await sendWebmention(fetcher, target, source)).to.be.true
+    expect(requests[1][0]).to.equal('https://example.com/webmention')
+    expect(requests[1][1]).to.include({
+      method: 'POST',
+      body: `source=${encodeURIComponent(target)}&target=${encodeURIComponent(source)}`
+    })
+  })
+})
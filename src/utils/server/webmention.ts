@@ -0,0 +1,166 @@
+import { parse, resolve } from 'url'
+
+import { isWebUrl } from 'utils/isWebUrl'
+import { makeExcerpt } from 'utils/makeExcerpt'
+import { decodeEntities, plainText } from './plainText'
+
+// Models
+import { IFetcher, IFetchResponse, IWebmentionAuthor, IWebmentionType } from 'models/webmentions'
+
+interface IAttributes {
+  [K: string]: string
+}
+
+interface IParsedMention {
+  type: IWebmentionType
+  author?: IWebmentionAuthor
+  content?: string
+}
+
+const tagRegExp = (tag: string): RegExp => new RegExp(`<${tag}\\b[^>]*>`, 'gi')
+const attributeRegExp = /([a-z][a-z0-9:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi
+const linkHeaderRegExp = /<([^>]*)>\s*;[^,]*\brel\s*=\s*"?([^",]*)"?/gi
+const httpRegExp = /^https?:\/\//i
+const replyLength = 300
+
+const attributes = (tag: string): IAttributes => {
+  const result: IAttributes = {}
+
+  attributeRegExp.lastIndex = 0
+
+  for (let match = attributeRegExp.exec(tag); match; match = attributeRegExp.exec(tag)) {
+    result[match[1].toLowerCase()] = decodeEntities(match[2] || match[3] || match[4] || '')
+  }
+
+  return result
+}
+
+const findTags = (html: string, tag: string): IAttributes[] =>
+  (html.match(tagRegExp(tag)) || []).map(attributes)
+
+const hasToken = (list: string = '', token: string): boolean =>
+  list.split(/\s+/).indexOf(token) !== -1
+
+const findByClass = (html: string, tag: string, className: string): IAttributes =>
+  findTags(html, tag).filter(({ class: classList }: IAttributes): boolean => hasToken(classList, className))[0]
+
+// Trailing slashes do not make urls different for the purpose of a mention
+const sameUrl = (a: string, b: string): boolean =>
+  a.replace(/\/+$/, '') === b.replace(/\/+$/, '')
+
+// Inner text of the first element with the given class, good enough for the flat markup of h-entries
+const classText = (html: string, className: string): string => {
+  const classAttribute = `class\\s*=\\s*["'][^"']*\\b${className}\\b`
+  const match = html.match(new RegExp(`<([a-z0-9]+)\\b[^>]*${classAttribute}[^>]*>([\\s\\S]*?)</\\1>`, 'i'))
+
+  return match ? plainText(match[2]) : ''
+}
+
+/**
+ * Absolute http(s) links of a document, without duplicates
+ */
+export const findLinks = (html: string, base?: string): string[] => {
+  const links = findTags(html, 'a')
+    .map(({ href }: IAttributes): string => href && (base ? resolve(base, href) : href))
+    .filter((href: string): boolean => httpRegExp.test(href || ''))
+
+  return links.filter((href: string, index: number): boolean => links.indexOf(href) === index)
+}
+
+export const linksTo = (html: string, target: string): boolean =>
+  findLinks(html).some((href: string): boolean => sameUrl(href, target))
+
+/**
+ * Reads the kind of the mention and its author from the microformats of the source page.
+ * Pages without microformats are plain mentions by their host.
+ */
+export const parseMention = (html: string, source: string, target: string): IParsedMention => {
+  const targetLinks = findTags(html, 'a').filter(({ href }: IAttributes): boolean => !!href && sameUrl(href, target))
+  const hasClass = (className: string): boolean =>
+    targetLinks.some(({ class: classList }: IAttributes): boolean => hasToken(classList, className))
+  const authorLink = findByClass(html, 'a', 'p-author')
+  const photo = findByClass(html, 'img', 'u-photo')
+  const author: IWebmentionAuthor = {
+    name: classText(html, 'p-author') || parse(source).host
+  }
+
+  // Addresses of other schemes are dropped, they are shown on our pages
+  if (authorLink && authorLink.href && isWebUrl(resolve(source, authorLink.href))) {
+    author.url = resolve(source, authorLink.href)
+  }
+
+  if (photo && photo.src && isWebUrl(resolve(source, photo.src))) {
+    author.photo = resolve(source, photo.src)
+  }
+
+  if (hasClass('u-like-of')) {
+    return { type: 'like', author }
+  }
+
+  if (hasClass('u-repost-of')) {
+    return { type: 'repost', author }
+  }
+
+  const content = makeExcerpt(replyLength)(classText(html, 'e-content') || classText(html, 'p-content'))
+
+  return {
+    type: hasClass('u-in-reply-to') ? 'reply' : 'mention',
+    author,
+    content: content || undefined
+  }
+}
+
+const endpointFromHeader = (link: string | null): string | undefined => {
+  linkHeaderRegExp.lastIndex = 0
+
+  for (let match = linkHeaderRegExp.exec(link || ''); match; match = linkHeaderRegExp.exec(link)) {
+    if (hasToken(match[2].trim(), 'webmention')) {
+      return match[1]
+    }
+  }
+}
+
+const endpointFromHtml = (html: string): string | undefined => {
+  const [endpoint] = [...findTags(html, 'link'), ...findTags(html, 'a')]
+    .filter(({ rel, href }: IAttributes): boolean => hasToken(rel, 'webmention') && href !== undefined)
+
+  return endpoint && endpoint.href
+}
+
+/**
+ * Webmention endpoint of a page, the Link header wins over the markup
+ */
+export const discoverEndpoint = async (fetcher: IFetcher, target: string): Promise<string | undefined> => {
+  const response: IFetchResponse = await fetcher(target)
+
+  if (!response.ok) {
+    return
+  }
+
+  const endpoint = endpointFromHeader(response.headers.get('link')) || endpointFromHtml(await response.text())
+
+  return endpoint === undefined ? undefined : resolve(response.url || target, endpoint)
+}
+
+/**
+ * Notifies the target about a link from the source, resolves to false when the target takes no webmentions
+ */
+export const sendWebmention = async (fetcher: IFetcher, source: string, target: string): Promise<boolean> => {
+  const endpoint = await discoverEndpoint(fetcher, target)
+
+  if (!endpoint) {
+    return false
+  }
+
+  const response = await fetcher(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: `source=${encodeURIComponent(source)}&target=${encodeURIComponent(target)}`
+  })
+
+  if (!response.ok) {
+    throw new Error(`Webmention endpoint ${endpoint} responded with ${response.status}`)
+  }
+
+  return true
+}
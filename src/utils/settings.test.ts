@@ -0,0 +1,22 @@
+import { expect } from 'chai'
+import { defaultSettings, settingsFromOptions } from './settings'
+
+describe('settingsFromOptions', () => {
+  it('uses defaults for missing options', () => {
+    expect(settingsFromOptions([])).to.eql(defaultSettings)
+  })
+
+  it('takes values of known options', () => {
+    const options = [
+      { _id: 'site_title', value: 'Burn the Heretic!', _created: '2017-02-23T14:24:04.211Z' },
+      { _id: 'excerpt_length', value: 100, _created: '2017-02-23T14:24:04.211Z' },
+      { _id: 'robots_txt', value: 'User-agent: *', _created: '2017-02-23T14:24:04.211Z' }
+    ]
+
+    expect(settingsFromOptions(options)).to.eql({
+      ...defaultSettings,
+      title: 'Burn the Heretic!',
+      excerptLength: 100
+    })
+  })
+})
@@ -0,0 +1,41 @@
+import { find } from 'utils/ramda'
+
+// Models
+import { IOption } from 'models/options'
+import { ISettings } from 'models/settings'
+
+export const defaultSettings: ISettings = {
+  title: 'Пингвин Рыба Есть',
+  titleTemplate: '%s | Пингвин Рыба Есть',
+  description: 'Пингвин Рыба Есть',
+  fontLinks: [
+    '//fonts.googleapis.com/css?family=Comfortaa:700&subset=latin,cyrillic',
+    '//fonts.googleapis.com/css?family=Open+Sans:400italic,400,700&subset=cyrillic-ext,latin-ext'
+  ],
+  excerptLength: 300
+}
+
+// Ids of options in the options service
+export const settingsOptions: { [K in keyof ISettings]: string } = {
+  title: 'site_title',
+  titleTemplate: 'site_title_template',
+  description: 'site_description',
+  fontLinks: 'font_links',
+  excerptLength: 'excerpt_length'
+}
+
+export const settingsOptionIds: string[] = Object.keys(settingsOptions).map(
+  (key: string): string => settingsOptions[key]
+)
+
+/**
+ * Settings missing from the options service keep their default values
+ */
+export const settingsFromOptions = (options: IOption[]): ISettings => Object.keys(settingsOptions).reduce(
+  (result: ISettings, key: string): ISettings => {
+    const option: IOption = find(({ _id }: IOption): boolean => _id === settingsOptions[key], options)
+
+    return option && option.value !== undefined ? { ...result, [key]: option.value } : result
+  },
+  defaultSettings
+)
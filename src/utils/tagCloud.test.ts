@@ -0,0 +1,26 @@
+import { expect } from 'chai'
+import { tagCloud } from './tagCloud'
+
+describe('tagCloud', () => {
+  const tag = (_id: string, _count: number, taxonomy: string = 'tags'): any => ({ _id, _count, taxonomy, title: _id })
+
+  it('weights tags by the number of posts', () => {
+    const weights = tagCloud([tag('purge', 100), tag('burn', 1), tag('kill', 10)], 5)
+
+    expect(weights.map(({ tag: { _id }, weight }: any): any[] => [_id, weight])).to.eql([
+      ['burn', 1],
+      ['kill', 3],
+      ['purge', 5]
+    ])
+  })
+
+  it('skips categories and tags without posts', () => {
+    const weights = tagCloud([tag('heresy', 0), tag('code', 10, 'categories'), tag('penguin', 3)], 5)
+
+    expect(weights.map(({ tag: { _id } }: any): string => _id)).to.eql(['penguin'])
+  })
+
+  it('gives the same weight to equally used tags', () => {
+    expect(tagCloud([tag('burn', 2), tag('kill', 2)], 5).map(({ weight }: any): number => weight)).to.eql([1, 1])
+  })
+})
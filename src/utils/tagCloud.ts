@@ -0,0 +1,21 @@
+// Models
+import { ITag, ITagWeight } from 'models/tags'
+
+const byTitle = (a: ITag, b: ITag): number => a.title.localeCompare(b.title)
+
+/**
+ * Weights of tags with posts on a logarithmic scale, so a few popular tags do not make the rest look alike
+ */
+export const tagCloud = (tags: ITag[], steps: number): ITagWeight[] => {
+  const used = tags
+    .filter(({ taxonomy, _count }: ITag): boolean => taxonomy === 'tags' && _count > 0)
+    .sort(byTitle)
+  const logs = used.map(({ _count }: ITag): number => Math.log(_count))
+  const min = Math.min(...logs)
+  const range = Math.max(...logs) - min
+
+  return used.map((tag: ITag, index: number): ITagWeight => ({
+    tag,
+    weight: range ? 1 + Math.round((logs[index] - min) / range * (steps - 1)) : 1
+  }))
+}
@@ -1,8 +1,36 @@
+const twoDigits = (value: string | number): string => `${value}`.length === 1 ? `0${value}` : `${value}`
+
 export const postUrlTemplate = (id: string): string => `/post/${id}/`
 export const pageUrlTemplate = (id: string): string => `/${id}/`
 export const tagUrlTemplate = (id: string): string => `/archive/${id}/`
+// The archive of a tag and its pages
+export const isTagUrl = (pathname: string, id: string): boolean => pathname.indexOf(tagUrlTemplate(id)) === 0
+export const authorUrlTemplate = (id: string): string => `/author/${id}/`
+export const yearUrlTemplate = (year: string | number): string => `/${year}/`
+export const monthUrlTemplate =
+  (year: string | number, month: string | number): string => `/${year}/${twoDigits(month)}/`
+export const searchUrl = '/search/'
+export const searchUrlTemplate =
+  (query: string, url: string = searchUrl): string => `${url}?q=${encodeURIComponent(query)}`
+export const uploadsUrl = '/uploads/'
+export const uploadUrlTemplate = (filename: string): string => `${uploadsUrl}${filename}`
+export const adminUrl = '/admin/'
+export const adminPostUrlTemplate = (id: string): string => `${adminUrl}post/${id}/`
+export const adminCommentsUrl = `${adminUrl}comments/`
+export const adminRedirectsUrl = `${adminUrl}redirects/`
+export const adminTagsUrl = `${adminUrl}tags/`
+export const adminUploadsUrl = `${adminUrl}uploads/`
+export const adminSettingsUrl = `${adminUrl}settings/`
+export const adminUsersUrl = `${adminUrl}users/`
+export const registerUrl = `${adminUrl}register/`
+export const resetPasswordUrl = `${adminUrl}reset/`
+export const tokenUrlTemplate = (url: string, token: string): string => `${url}?token=${encodeURIComponent(token)}`
+export const feedUrlTemplate = (url: string): string => `${url}feed/`
+export const atomFeedUrlTemplate = (url: string): string => `${url}feed/atom/`
 export const paginatedTemplate =
   (id: string | number): (a: string) => string =>
     (url: string): string => `${url}page/${id}/`
 
 export const pageRegExp = /\/page\/\d*\/?/
+// Paths of date archives start with a year, the router alone would take it for a page id
+export const dateArchiveRegExp = /^\/\d{4}\//
@@ -1,4 +1,14 @@
 export const enum UserRoles {
   anonymous = 0,
+  author = 10,
+  editor = 30,
   admin = 50
 }
+
+// From the least to the most trusted, every role may do whatever the ones before it may
+export const userRoles: UserRoles[] = [UserRoles.anonymous, UserRoles.author, UserRoles.editor, UserRoles.admin]
+
+export const hasRole = (level: UserRoles, role: UserRoles): boolean => level >= role
+
+export const rolesFrom = (role: UserRoles): UserRoles[] =>
+  userRoles.filter((level: UserRoles): boolean => level >= role)
@@ -0,0 +1,39 @@
+import { expect } from 'chai'
+import { validationErrors } from './validationErrors'
+
+describe('validationErrors', () => {
+  it('maps ajv errors to field names', () => {
+    const error = {
+      name: 'Unprocessable',
+      data: [
+        { dataPath: '.publishAt', message: 'should match format "date-time"', params: {} },
+        { dataPath: '', message: 'should have required property \'content\'', params: { missingProperty: '.content' } },
+        { dataPath: '.tags[0]', message: 'should be string', params: {} }
+      ]
+    }
+
+    expect(validationErrors(error)).to.eql({
+      publishAt: 'should match format "date-time"',
+      content: 'should have required property \'content\'',
+      tags: 'should be string'
+    })
+  })
+
+  it('keeps the first message for a field', () => {
+    const error = {
+      name: 'Unprocessable',
+      errors: [
+        { dataPath: '.title', message: 'first' },
+        { dataPath: '.title', message: 'second' }
+      ]
+    }
+
+    expect(validationErrors(error)).to.eql({ title: 'first' })
+  })
+
+  it('ignores other errors', () => {
+    expect(validationErrors(new Error('Boom'))).to.eql({})
+    expect(validationErrors({ name: 'NotAuthenticated', data: [] })).to.eql({})
+    expect(validationErrors(undefined)).to.eql({})
+  })
+})
@@ -0,0 +1,39 @@
+import { IFieldErrors } from 'models/admin'
+
+interface IAjvError {
+  dataPath?: string
+  message?: string
+  params?: {
+    missingProperty?: string
+    additionalProperty?: string
+  }
+}
+
+const fieldName = ({ dataPath, params = {} }: IAjvError): string =>
+  (dataPath || params.missingProperty || params.additionalProperty || '')
+    .replace(/^\./, '')
+    .split(/[.\[]/)[0]
+
+/**
+ * Maps an Unprocessable error from BaseService to messages by field name.
+ * Ajv errors are passed as error data, so after the trip over REST they end up in `data` rather than `errors`.
+ */
+export const validationErrors = (error: any): IFieldErrors => {
+  if (!error || error.name !== 'Unprocessable') {
+    return {}
+  }
+
+  const errors: IAjvError[] = Array.isArray(error.data) ? error.data : error.errors
+
+  if (!Array.isArray(errors)) {
+    return {}
+  }
+
+  return errors.reduce(
+    (result: IFieldErrors, ajvError: IAjvError) => ({
+      [fieldName(ajvError)]: ajvError.message,
+      ...result
+    }),
+    {}
+  )
+}